@@ -1,7 +1,7 @@
 #!/usr/bin/env node
 /**
- * Convert .rv (GTO text) file to JSON
- * Usage: node scripts/rv-to-json.js <input.rv> [output.json]
+ * Convert .rv (GTO text) or .gto (binary, optionally gzip-compressed) file to JSON
+ * Usage: node scripts/rv-to-json.js <input.rv|input.gto> [output.json]
  */
 
 import { readFileSync, writeFileSync } from 'fs';
@@ -10,16 +10,18 @@ import { SimpleReader } from '../src/index.js';
 const args = process.argv.slice(2);
 
 if (args.length < 1) {
-  console.error('Usage: node scripts/rv-to-json.js <input.rv> [output.json]');
+  console.error('Usage: node scripts/rv-to-json.js <input.rv|input.gto> [output.json]');
   process.exit(1);
 }
 
 const inputFile = args[0];
-const outputFile = args[1] || inputFile.replace(/\.rv$/, '.json');
+const outputFile = args[1] || inputFile.replace(/\.(rv|gto)(\.gz)?$/, '.json');
 
 try {
   console.log(`Reading ${inputFile}...`);
-  const content = readFileSync(inputFile, 'utf-8');
+  const bytes = readFileSync(inputFile);
+  // Text files are decoded here; binary and compressed files are detected by the reader
+  const content = inputFile.endsWith('.rv') ? bytes.toString('utf-8') : new Uint8Array(bytes);
 
   const reader = new SimpleReader();
   const success = reader.open(content, inputFile);
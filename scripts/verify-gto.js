@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+/**
+ * Check the layout of a binary .gto file (optionally gzip-compressed)
+ * Usage: node scripts/verify-gto.js <input.gto> [--json]
+ */
+
+import { readFileSync } from 'fs';
+import { verifyBinary } from '../src/index.js';
+
+const args = process.argv.slice(2);
+const json = args.includes('--json');
+const inputFile = args.find(arg => arg !== '--json');
+
+if (!inputFile) {
+  console.error('Usage: node scripts/verify-gto.js <input.gto> [--json]');
+  process.exit(1);
+}
+
+try {
+  const report = verifyBinary(new Uint8Array(readFileSync(inputFile)));
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    const container = report.compression ? ` (${report.compression}-compressed)` : '';
+    console.log(`${inputFile}${container}: ${report.fileSize} bytes, version ${report.version ?? '?'}, ${report.byteOrder ?? '?'}-endian`);
+    if (report.expectedSize !== null) {
+      console.log(`Headers imply ${report.expectedSize} bytes`);
+    }
+    for (const section of report.sections) {
+      const status = section.complete ? '' : '  INCOMPLETE';
+      console.log(`  ${section.name.padEnd(10)} @${String(section.offset).padEnd(10)} ${String(section.size).padStart(10)} bytes  ${section.count} entries${status}`);
+    }
+    for (const warning of report.warnings) {
+      console.log(`Warning: ${warning.message}`);
+    }
+    if (report.error) {
+      const { salvage } = report;
+      console.log(`Error: ${report.error.message}`);
+      console.log(`Salvageable: first ${salvage.bytes} bytes, ${salvage.properties} of ${salvage.totalProperties} properties, ${salvage.objects.length} intact objects`);
+    } else {
+      console.log('OK');
+    }
+  }
+
+  process.exit(report.ok ? 0 : 2);
+} catch (error) {
+  console.error(`Error: ${error.message}`);
+  process.exit(1);
+}
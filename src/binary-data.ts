@@ -0,0 +1,192 @@
+/**
+ * Bulk Binary Data
+ *
+ * Decodes and encodes the data of a whole property at once rather than value
+ * by value through a DataView. Values are copied between bytes and typed
+ * arrays with native bulk copies; when the file's byte order differs from the
+ * host's, the copy is then byte-swapped a word at a time. Half floats are
+ * converted in a single pass, through a lookup table when decoding.
+ */
+
+import { DataType, DataTypeSize } from './constants.js';
+import { floatBitsToHalf, halfToFloat, isLittleEndian, swap16, swap32 } from './utils.js';
+import type { PropertyTypedArray } from './dto.js';
+
+const HOST_LITTLE_ENDIAN = isLittleEndian();
+
+/** Constructor shape shared by the raw value typed arrays */
+interface RawArrayConstructor {
+  new (length: number): PropertyTypedArray;
+  new (buffer: ArrayBuffer, byteOffset: number, length: number): PropertyTypedArray;
+}
+
+/** Numeric typed arrays */
+type NumberArray = Exclude<PropertyTypedArray, BigInt64Array>;
+
+/** Typed array holding each data type's raw values as stored in a file */
+const RawArrayForType: Record<DataType, RawArrayConstructor> = {
+  [DataType.Int]: Int32Array,
+  [DataType.Float]: Float32Array,
+  [DataType.Double]: Float64Array,
+  [DataType.Half]: Uint16Array,
+  [DataType.String]: Uint32Array,
+  [DataType.Boolean]: Uint8Array,
+  [DataType.Short]: Uint16Array,
+  [DataType.Byte]: Uint8Array,
+  [DataType.Int64]: BigInt64Array
+};
+
+/** Half float bit patterns to values, built on first use */
+let halfTable: Float32Array | null = null;
+
+/**
+ * Reverse the byte order of each `size`-byte value in place
+ * @param buffer - Buffer whose length is a multiple of `size`
+ */
+export function swapBytes(buffer: ArrayBuffer, size: number): void {
+  if (size === 2) {
+    const words = new Uint16Array(buffer);
+    for (let i = 0; i < words.length; i++) {
+      words[i] = swap16(words[i]);
+    }
+  } else if (size === 4) {
+    const words = new Uint32Array(buffer);
+    for (let i = 0; i < words.length; i++) {
+      words[i] = swap32(words[i]);
+    }
+  } else if (size === 8) {
+    // Swap each half, and the halves with each other
+    const words = new Uint32Array(buffer);
+    for (let i = 0; i < words.length; i += 2) {
+      const low = words[i];
+      words[i] = swap32(words[i + 1]);
+      words[i + 1] = swap32(low);
+    }
+  }
+}
+
+/**
+ * Convert half float bit patterns to floats
+ */
+export function halfsToFloats(halfs: Uint16Array): Float32Array {
+  if (!halfTable) {
+    halfTable = new Float32Array(65536);
+    for (let i = 0; i < 65536; i++) {
+      halfTable[i] = halfToFloat(i);
+    }
+  }
+  const table = halfTable;
+  const floats = new Float32Array(halfs.length);
+  for (let i = 0; i < halfs.length; i++) {
+    floats[i] = table[halfs[i]];
+  }
+  return floats;
+}
+
+/**
+ * Convert numbers to half float bit patterns
+ */
+export function floatsToHalfs(values: Float32Array): Uint16Array {
+  const bits = new Uint32Array(values.buffer, values.byteOffset, values.length);
+  const halfs = new Uint16Array(values.length);
+  for (let i = 0; i < bits.length; i++) {
+    halfs[i] = floatBitsToHalf(bits[i]);
+  }
+  return halfs;
+}
+
+/**
+ * Decode the stored values of a property
+ * Booleans are normalized to 0/1 and half floats expanded to 32-bit floats.
+ * @param bytes - The property data, `count` values of the type's size
+ * @param type - Data type of the values
+ * @param count - Number of values
+ * @param littleEndian - Byte order of `bytes`
+ * @returns A new typed array in host byte order
+ */
+export function decodeValues(bytes: Uint8Array, type: DataType, count: number, littleEndian: boolean): PropertyTypedArray {
+  const size = DataTypeSize[type];
+  // Copying also aligns the data for the typed array
+  const copy = bytes.slice(0, count * size);
+  if (littleEndian !== HOST_LITTLE_ENDIAN) {
+    swapBytes(copy.buffer, size);
+  }
+
+  switch (type) {
+    case DataType.Half:
+      return halfsToFloats(new Uint16Array(copy.buffer, 0, count));
+    case DataType.Boolean:
+      for (let i = 0; i < count; i++) {
+        if (copy[i] > 1) {
+          copy[i] = 1;
+        }
+      }
+      return copy;
+    default:
+      return new RawArrayForType[type](copy.buffer, 0, count);
+  }
+}
+
+/**
+ * Encode the values of a property as stored in a file
+ * Numbers are converted as by the DataView setters (so out-of-range integers
+ * wrap); bigints are taken as their nearest number except for int64.
+ * @param values - Property values, flattened
+ * @param type - Data type to store them as
+ * @param littleEndian - Byte order to write
+ * @returns The encoded bytes
+ */
+export function encodeValues(values: ArrayLike<number | bigint>, type: DataType, littleEndian: boolean): Uint8Array<ArrayBuffer> {
+  let encoded: PropertyTypedArray;
+  switch (type) {
+    case DataType.Int64: {
+      const int64 = new BigInt64Array(values.length);
+      if (values instanceof BigInt64Array) {
+        int64.set(values);
+      } else {
+        for (let i = 0; i < values.length; i++) {
+          const value = values[i];
+          int64[i] = typeof value === 'bigint' ? value : BigInt(value);
+        }
+      }
+      encoded = int64;
+      break;
+    }
+    case DataType.Boolean: {
+      const bools = new Uint8Array(values.length);
+      for (let i = 0; i < values.length; i++) {
+        bools[i] = values[i] ? 1 : 0;
+      }
+      encoded = bools;
+      break;
+    }
+    case DataType.Half:
+      encoded = floatsToHalfs(toNumbers(DataType.Float, values) as Float32Array);
+      break;
+    default:
+      encoded = toNumbers(type, values);
+  }
+
+  // Always a fresh ArrayBuffer, never shared
+  const buffer = encoded.buffer as ArrayBuffer;
+  if (littleEndian !== HOST_LITTLE_ENDIAN) {
+    swapBytes(buffer, encoded.BYTES_PER_ELEMENT);
+  }
+  return new Uint8Array(buffer);
+}
+
+/**
+ * Convert values into a new typed array of numbers
+ */
+function toNumbers(type: DataType, values: ArrayLike<number | bigint>): NumberArray {
+  const result = new RawArrayForType[type](values.length) as NumberArray;
+  try {
+    result.set(values as ArrayLike<number>);
+  } catch {
+    // Bigints do not convert implicitly - take their nearest number
+    for (let i = 0; i < values.length; i++) {
+      result[i] = Number(values[i]);
+    }
+  }
+  return result;
+}
@@ -15,23 +15,41 @@
  *     .end()
  *   .end()
  *   .build();
+ *
+ * Components nest (GTO v4) by starting a component inside another:
+ *
+ * @example
+ * new GTOBuilder()
+ *   .object('node', 'RVStack', 1)
+ *     .component('composite')
+ *       .string('type', 'over')
+ *       .component('layer')
+ *         .float('opacity', 0.5)
+ *       .end()
+ *     .end()
+ *   .end()
+ *   .build();
  */
 
 import { DataType } from './constants.js';
+import { elementShape, nestValues } from './utils.js';
 import type { GTOData, ObjectData, ComponentData, PropertyData } from './dto.js';
 
-type PropertyValue = number | string | boolean | number[] | string[] | boolean[] | number[][];
+type PropertyValue = number | bigint | string | boolean | number[] | bigint[] | string[] | boolean[] | number[][] | number[][][];
 
 /**
  * Component builder
+ * @typeParam P - Builder that end() returns to: the object, or the parent
+ *                component of a nested component
  */
-class ComponentBuilder {
+class ComponentBuilder<P = ObjectBuilder> {
   private _name: string;
-  private _parent: ObjectBuilder;
+  private _parent: P;
   private _properties: Record<string, PropertyData> = {};
+  private _components: Record<string, ComponentBuilder<ComponentBuilder<P>>> = {};
   private _interpretation: string = '';
 
-  constructor(name: string, parent: ObjectBuilder) {
+  constructor(name: string, parent: P) {
     this._name = name;
     this._parent = parent;
   }
@@ -76,6 +94,15 @@ class ComponentBuilder {
     return this._addProperty(name, DataType.Int, 4, data);
   }
 
+  /**
+   * Add an int64 property (width=1)
+   * Values are stored as bigint so they are written back exactly.
+   */
+  int64(name: string, data: number | bigint | (number | bigint)[]): this {
+    const values = Array.isArray(data) ? data.map(value => BigInt(value)) : BigInt(data);
+    return this._addProperty(name, DataType.Int64, 1, values);
+  }
+
   // ============================================
   // Float properties
   // ============================================
@@ -207,14 +234,54 @@ class ComponentBuilder {
     return this;
   }
 
+  /**
+   * Add a multi-dimensional property (e.g. dims [4, 4] for float[4,4])
+   * Data may be flat, one flat array per element, or nested by shape.
+   */
+  shaped(name: string, type: DataType, dims: number[], data: PropertyValue, interpretation: string = ''): this {
+    const shape = elementShape(dims);
+    const width = dims.reduce((a, b) => a * b, 1);
+    if (!shape) {
+      return this.property(name, type, width, data, interpretation);
+    }
+
+    const values = Array.isArray(data) ? (data as unknown[]).flat(Infinity) : [data];
+    const elements: unknown[] = [];
+    for (let i = 0; i + width <= values.length; i += width) {
+      elements.push(nestValues(values.slice(i, i + width), shape));
+    }
+
+    this._properties[name] = {
+      type: this._typeName(type),
+      size: elements.length,
+      width,
+      dims: shape,
+      interpretation,
+      data: elements
+    };
+    return this;
+  }
+
   // ============================================
   // Builder methods
   // ============================================
 
   /**
-   * End component and return to parent object builder
+   * Start a nested child component
    */
-  end(): ObjectBuilder {
+  component(name: string, interpretation: string = ''): ComponentBuilder<ComponentBuilder<P>> {
+    const comp = new ComponentBuilder<ComponentBuilder<P>>(name, this);
+    if (interpretation) {
+      comp.as(interpretation);
+    }
+    this._components[name] = comp;
+    return comp;
+  }
+
+  /**
+   * End component and return to the parent object (or component) builder
+   */
+  end(): P {
     return this._parent;
   }
 
@@ -226,10 +293,17 @@ class ComponentBuilder {
     for (const [name, prop] of Object.entries(this._properties)) {
       properties[name] = prop;
     }
-    return {
+    const component: ComponentData = {
       interpretation: this._interpretation,
       properties
     };
+    if (Object.keys(this._components).length > 0) {
+      component.components = {};
+      for (const [name, comp] of Object.entries(this._components)) {
+        component.components[name] = comp.build();
+      }
+    }
+    return component;
   }
 
   // ============================================
@@ -0,0 +1,124 @@
+/**
+ * Canonical Form
+ *
+ * Puts GTO data in a deterministic order so that the same logical session
+ * always serializes to the same bytes, which keeps files under version
+ * control diffable. Components and properties are identified by name, so
+ * sorting them does not change what a file means; objects are ordered by
+ * name, then protocol. The order of values within a property never changes.
+ */
+
+import { DataType } from './constants.js';
+import { elementShape, propertyDataType } from './utils.js';
+import type { GTOData, ObjectData, ComponentData, PropertyData } from './dto.js';
+
+/**
+ * Compare strings by UTF-16 code units, independent of locale
+ */
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Copy a record with its keys sorted
+ */
+function sortedRecord<T, U>(record: Record<string, T>, map: (value: T) => U): Record<string, U> {
+  const sorted: Record<string, U> = {};
+  for (const key of Object.keys(record).sort(compareStrings)) {
+    sorted[key] = map(record[key]);
+  }
+  return sorted;
+}
+
+function canonicalProperty(prop: PropertyData): PropertyData {
+  const canonical: PropertyData = {
+    type: prop.type,
+    size: prop.size,
+    width: prop.width,
+    interpretation: prop.interpretation || '',
+    data: prop.data
+  };
+  const shape = elementShape(prop.dims);
+  if (shape) {
+    canonical.dims = shape;
+  }
+  return canonical;
+}
+
+function canonicalComponent(component: ComponentData): ComponentData {
+  const canonical: ComponentData = {
+    interpretation: component.interpretation || '',
+    properties: sortedRecord(component.properties, canonicalProperty)
+  };
+  if (component.transposed) {
+    canonical.transposed = true;
+  }
+  if (component.components && Object.keys(component.components).length > 0) {
+    canonical.components = sortedRecord(component.components, canonicalComponent);
+  }
+  return canonical;
+}
+
+function canonicalObject(obj: ObjectData): ObjectData {
+  return {
+    name: obj.name,
+    protocol: obj.protocol,
+    protocolVersion: obj.protocolVersion || 1,
+    components: sortedRecord(obj.components, canonicalComponent)
+  };
+}
+
+/**
+ * Put GTO data in canonical order
+ *
+ * Objects are sorted by name, then protocol (keeping the relative order of
+ * duplicates); components, nested components and properties by name.
+ * Defaults are made explicit and unused fields dropped, e.g. a missing
+ * protocol version becomes 1 and `transposed: false` is removed. Property
+ * data arrays are shared with the input, not copied.
+ * @param data - Data to canonicalize (not modified)
+ * @returns Canonical copy of the data
+ */
+export function canonicalize(data: GTOData): GTOData {
+  const objects = data.objects.map(canonicalObject);
+  objects.sort((a, b) => compareStrings(a.name, b.name) || compareStrings(a.protocol, b.protocol));
+  return { version: data.version, objects };
+}
+
+/**
+ * All strings canonical data refers to, sorted, for a normalized binary
+ * string table
+ *
+ * Always includes the empty string, which sorts first and so takes index 0,
+ * the index headers use for "no interpretation".
+ */
+export function canonicalStrings(data: GTOData): string[] {
+  const strings = new Set<string>(['']);
+  const addComponent = (name: string, component: ComponentData) => {
+    strings.add(name);
+    strings.add(component.interpretation);
+    for (const [propName, prop] of Object.entries(component.properties)) {
+      strings.add(propName);
+      strings.add(prop.interpretation);
+      if (propertyDataType(prop.type) === DataType.String) {
+        for (const value of (prop.data as unknown[]).flat(Infinity)) {
+          if (typeof value === 'string') {
+            strings.add(value);
+          }
+        }
+      }
+    }
+    for (const [childName, child] of Object.entries(component.components ?? {})) {
+      addComponent(childName, child);
+    }
+  };
+
+  for (const obj of data.objects) {
+    strings.add(obj.name);
+    strings.add(obj.protocol);
+    for (const [compName, component] of Object.entries(obj.components)) {
+      addComponent(compName, component);
+    }
+  }
+  return [...strings].sort(compareStrings);
+}
@@ -0,0 +1,1013 @@
+/**
+ * Gzip and Deflate
+ *
+ * Dependency-free, synchronous implementations of deflate (RFC 1951) and
+ * its gzip (RFC 1952) and zlib (RFC 1950) containers. Reader.open() uses
+ * them for compressed files where DecompressionStream is unavailable or
+ * would force an async API, and streaming reads inflate chunk by chunk with
+ * IncrementalDecompressor. Either side can be replaced with a faster
+ * implementation (such as Node's zlib) through the Decompressor and
+ * Compressor hooks.
+ *
+ * @example
+ * import { gunzipSync, inflateSync } from 'node:zlib';
+ * const reader = new SimpleReader({ decompress: (data, format) =>
+ *   format === 'gzip' ? gunzipSync(data) : inflateSync(data) });
+ */
+
+/** Container of compressed data */
+export type CompressionFormat = 'gzip' | 'deflate';
+
+/**
+ * Decompress gzip data or zlib-wrapped deflate data ('deflate', as produced
+ * by CompressionStream('deflate'))
+ * `maxBytes` is ReaderLimits.maxBytes, if set; output over it is rejected.
+ */
+export type Decompressor = (data: Uint8Array, format: CompressionFormat, maxBytes?: number) => Uint8Array;
+
+/**
+ * Thrown when decompressing would produce more than `maxBytes` bytes
+ */
+export class DecompressedSizeError extends RangeError {
+  readonly maxBytes: number;
+
+  constructor(maxBytes: number) {
+    super(`Decompressed data exceeds ${maxBytes} bytes`);
+    this.name = 'DecompressedSizeError';
+    this.maxBytes = maxBytes;
+  }
+}
+
+/** Compress data into a gzip file */
+export type Compressor = (data: Uint8Array) => Uint8Array;
+
+// ============================================
+// Shared tables
+// ============================================
+
+/** Base lengths for length codes 257..285 */
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31,
+  35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2,
+  3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0
+];
+
+/** Base distances for distance codes 0..29 */
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193,
+  257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577
+];
+const DIST_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6,
+  7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13
+];
+
+/** LZ77 window: the furthest back a match can reach */
+const WINDOW_SIZE = 32768;
+
+/** Order of code length code lengths in a dynamic block header */
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+/** Code lengths of the fixed literal/length and distance codes */
+const FIXED_LENGTHS = new Uint8Array(288 + 30);
+FIXED_LENGTHS.fill(8, 0, 144);
+FIXED_LENGTHS.fill(9, 144, 256);
+FIXED_LENGTHS.fill(7, 256, 280);
+FIXED_LENGTHS.fill(8, 280, 288);
+FIXED_LENGTHS.fill(5, 288);
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Compute the CRC-32 checksum used by gzip
+ * @param crc - Checksum of the data before `data`, to continue from
+ */
+export function crc32(data: Uint8Array, crc: number = 0): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = crcTable[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Compute the Adler-32 checksum used by zlib
+ * @param adler - Checksum of the data before `data`, to continue from
+ */
+function adler32(data: Uint8Array, adler: number = 1): number {
+  let a = adler & 0xffff;
+  let b = adler >>> 16;
+  for (let i = 0; i < data.length;) {
+    // Sums stay below 2^53 for 5552 bytes between reductions
+    const end = Math.min(i + 5552, data.length);
+    for (; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/**
+ * Reverse the low `length` bits of a code (Huffman codes are stored MSB first)
+ */
+function reverseBits(code: number, length: number): number {
+  let reversed = 0;
+  for (let i = 0; i < length; i++) {
+    reversed = (reversed << 1) | (code & 1);
+    code >>>= 1;
+  }
+  return reversed;
+}
+
+/**
+ * Assign canonical Huffman codes to symbols from their code lengths
+ * @returns Code of each symbol, bit-reversed for LSB-first output
+ */
+function canonicalCodes(lengths: Uint8Array): Uint16Array {
+  const count = new Uint16Array(16);
+  for (const length of lengths) {
+    count[length]++;
+  }
+  count[0] = 0;
+
+  const next = new Uint16Array(16);
+  let code = 0;
+  for (let bits = 1; bits < 16; bits++) {
+    code = (code + count[bits - 1]) << 1;
+    next[bits] = code;
+  }
+
+  const codes = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    const length = lengths[symbol];
+    if (length) {
+      codes[symbol] = reverseBits(next[length]++, length);
+    }
+  }
+  return codes;
+}
+
+// ============================================
+// Inflate
+// ============================================
+
+/** Huffman decoding table: entry = symbol << 4 | code length */
+interface HuffmanTable {
+  table: Uint32Array;
+  bits: number;
+}
+
+function huffmanTable(lengths: Uint8Array): HuffmanTable {
+  let bits = 0;
+  for (const length of lengths) {
+    bits = Math.max(bits, length);
+  }
+  const codes = canonicalCodes(lengths);
+  const table = new Uint32Array(1 << bits);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    const length = lengths[symbol];
+    if (length) {
+      // Fill every slot whose low bits are this code
+      for (let i = codes[symbol]; i < table.length; i += 1 << length) {
+        table[i] = (symbol << 4) | length;
+      }
+    }
+  }
+  return { table, bits };
+}
+
+let fixedTables: [HuffmanTable, HuffmanTable] | null = null;
+
+/** Thrown inside an Inflater when its input runs out */
+const NEED_INPUT = Symbol('need input');
+
+/** Deflate block being decoded */
+type Block =
+  | { type: 'stored'; remaining: number }
+  | { type: 'huffman'; lengths: HuffmanTable; distances: HuffmanTable };
+
+/**
+ * Decoder for one raw deflate stream
+ *
+ * Decodes as far as its input goes and carries on from there when given
+ * more, so a stream can be inflated chunk by chunk. A symbol cut off by the
+ * end of the input is decoded again from its start.
+ */
+class Inflater {
+  private _data: Uint8Array;
+  /** Next unread input byte */
+  pos: number;
+  private _bitBuffer: number = 0;
+  private _bitCount: number = 0;
+  private _out: Uint8Array;
+  private _outLength: number = 0;
+  /** Keep only the window of the output, for inflating chunk by chunk */
+  private _windowed: boolean;
+  /** Output handed out by take() */
+  private _taken: number = 0;
+  /** Output dropped from the front of the window */
+  private _dropped: number = 0;
+  private _maxBytes: number;
+  private _block: Block | null = null;
+  private _final: boolean = false;
+  /** The final block has been decoded */
+  done: boolean = false;
+  // Where to pick up again when the input runs out
+  private _markPos: number = 0;
+  private _markBitBuffer: number = 0;
+  private _markBitCount: number = 0;
+
+  /**
+   * @param maxBytes - Most output to produce; more throws DecompressedSizeError
+   */
+  constructor(data: Uint8Array, pos: number, windowed: boolean = false, maxBytes: number = Infinity) {
+    this._data = data;
+    this.pos = pos;
+    this._windowed = windowed;
+    this._maxBytes = maxBytes;
+    const size = windowed ? 2 * WINDOW_SIZE : Math.max(1024, (data.length - pos) * 4);
+    this._out = new Uint8Array(Math.min(size, maxBytes));
+  }
+
+  /**
+   * Continue with new input
+   * @param data - Input, starting with the bytes not yet read
+   * @param pos - Offset of the first unread byte in `data`
+   */
+  input(data: Uint8Array, pos: number): void {
+    this._data = data;
+    this.pos = pos;
+  }
+
+  /**
+   * Decode as far as the input goes
+   * @returns true once the stream has ended; `pos` is then the first byte
+   *          after it
+   */
+  inflate(): boolean {
+    try {
+      while (!this.done) {
+        let block = this._block;
+        if (!block) {
+          this._mark();
+          block = this._blockHeader();
+          this._mark();
+        }
+        if (block.type === 'stored') {
+          this._stored(block);
+        } else {
+          this._codes(block.lengths, block.distances);
+        }
+        this._block = null;
+        if (this._final) {
+          // Hand back whole bytes that were read ahead
+          this.done = true;
+          this.pos -= this._bitCount >> 3;
+          this._bitBuffer = 0;
+          this._bitCount = 0;
+        }
+      }
+      return true;
+    } catch (e) {
+      if (e !== NEED_INPUT) {
+        throw e;
+      }
+      this.pos = this._markPos;
+      this._bitBuffer = this._markBitBuffer;
+      this._bitCount = this._markBitCount;
+      return false;
+    }
+  }
+
+  /**
+   * Output decoded since the last call
+   */
+  take(): Uint8Array {
+    if (!this._windowed) {
+      const output = this._out.subarray(this._taken, this._outLength);
+      this._taken = this._outLength;
+      return output;
+    }
+    const output = this._out.slice(this._taken, this._outLength);
+    // Later matches reach back at most one window
+    if (this._outLength > WINDOW_SIZE) {
+      this._out.copyWithin(0, this._outLength - WINDOW_SIZE, this._outLength);
+      this._dropped += this._outLength - WINDOW_SIZE;
+      this._outLength = WINDOW_SIZE;
+    }
+    this._taken = this._outLength;
+    return output;
+  }
+
+  /**
+   * Decode all blocks of input that holds the whole stream
+   */
+  run(): Uint8Array {
+    if (!this.inflate()) {
+      throw new Error('Unexpected end of compressed data');
+    }
+    return this.take();
+  }
+
+  private _mark(): void {
+    this._markPos = this.pos;
+    this._markBitBuffer = this._bitBuffer;
+    this._markBitCount = this._bitCount;
+  }
+
+  /**
+   * Read a block header, up to the data of a stored block
+   */
+  private _blockHeader(): Block {
+    const final = this._bits(1);
+    const type = this._bits(2);
+    let block: Block;
+    if (type === 0) {
+      // Skip to the byte boundary; whole bytes read ahead go back to the input
+      this._bits(this._bitCount & 7);
+      this.pos -= this._bitCount >> 3;
+      this._bitBuffer = 0;
+      this._bitCount = 0;
+
+      if (this.pos + 4 > this._data.length) {
+        throw NEED_INPUT;
+      }
+      const length = this._data[this.pos] | (this._data[this.pos + 1] << 8);
+      const complement = this._data[this.pos + 2] | (this._data[this.pos + 3] << 8);
+      if ((length ^ 0xffff) !== complement) {
+        throw new Error('Invalid stored block length');
+      }
+      this.pos += 4;
+      block = { type: 'stored', remaining: length };
+    } else if (type === 1) {
+      fixedTables ??= [huffmanTable(FIXED_LENGTHS.subarray(0, 288)), huffmanTable(FIXED_LENGTHS.subarray(288))];
+      block = { type: 'huffman', lengths: fixedTables[0], distances: fixedTables[1] };
+    } else if (type === 2) {
+      const [lengths, distances] = this._dynamicTables();
+      block = { type: 'huffman', lengths, distances };
+    } else {
+      throw new Error('Invalid deflate block type');
+    }
+    this._final = final === 1;
+    this._block = block;
+    return block;
+  }
+
+  private _bits(count: number): number {
+    while (this._bitCount < count) {
+      if (this.pos >= this._data.length) {
+        throw NEED_INPUT;
+      }
+      this._bitBuffer |= this._data[this.pos++] << this._bitCount;
+      this._bitCount += 8;
+    }
+    const value = this._bitBuffer & ((1 << count) - 1);
+    this._bitBuffer >>>= count;
+    this._bitCount -= count;
+    return value;
+  }
+
+  private _decode(huffman: HuffmanTable): number {
+    // Read ahead as far as the longest code, but the input may end sooner
+    while (this._bitCount < huffman.bits && this.pos < this._data.length) {
+      this._bitBuffer |= this._data[this.pos++] << this._bitCount;
+      this._bitCount += 8;
+    }
+    const entry = huffman.table[this._bitBuffer & ((1 << huffman.bits) - 1)];
+    const length = entry & 15;
+    if (length === 0 || length > this._bitCount) {
+      if (this._bitCount < huffman.bits) {
+        throw NEED_INPUT;
+      }
+      throw new Error('Invalid Huffman code');
+    }
+    this._bitBuffer >>>= length;
+    this._bitCount -= length;
+    return entry >>> 4;
+  }
+
+  private _reserve(count: number): void {
+    if (this._dropped + this._outLength + count > this._maxBytes) {
+      throw new DecompressedSizeError(this._maxBytes);
+    }
+    if (this._outLength + count > this._out.length) {
+      const limit = this._maxBytes - this._dropped;
+      const grown = new Uint8Array(Math.min(Math.max(this._out.length * 2, this._outLength + count), limit));
+      grown.set(this._out.subarray(0, this._outLength));
+      this._out = grown;
+    }
+  }
+
+  private _stored(block: { remaining: number }): void {
+    while (block.remaining > 0) {
+      const length = Math.min(block.remaining, this._data.length - this.pos);
+      if (length === 0) {
+        throw NEED_INPUT;
+      }
+      this._reserve(length);
+      this._out.set(this._data.subarray(this.pos, this.pos + length), this._outLength);
+      this._outLength += length;
+      this.pos += length;
+      block.remaining -= length;
+      this._mark();
+    }
+  }
+
+  private _dynamicTables(): [HuffmanTable, HuffmanTable] {
+    const literalCount = this._bits(5) + 257;
+    const distanceCount = this._bits(5) + 1;
+    const codeLengthCount = this._bits(4) + 4;
+    if (literalCount > 286 || distanceCount > 30) {
+      throw new Error('Invalid dynamic block header');
+    }
+
+    const codeLengths = new Uint8Array(19);
+    for (let i = 0; i < codeLengthCount; i++) {
+      codeLengths[CODE_LENGTH_ORDER[i]] = this._bits(3);
+    }
+    const codeLengthTable = huffmanTable(codeLengths);
+
+    // Literal/length and distance code lengths share one run-length sequence
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    for (let i = 0; i < lengths.length;) {
+      const symbol = this._decode(codeLengthTable);
+      if (symbol < 16) {
+        lengths[i++] = symbol;
+        continue;
+      }
+      let repeat: number;
+      let value = 0;
+      if (symbol === 16) {
+        if (i === 0) {
+          throw new Error('Invalid code length repeat');
+        }
+        value = lengths[i - 1];
+        repeat = 3 + this._bits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + this._bits(3);
+      } else {
+        repeat = 11 + this._bits(7);
+      }
+      if (i + repeat > lengths.length) {
+        throw new Error('Invalid code length repeat');
+      }
+      lengths.fill(value, i, i + repeat);
+      i += repeat;
+    }
+
+    return [huffmanTable(lengths.subarray(0, literalCount)), huffmanTable(lengths.subarray(literalCount))];
+  }
+
+  private _codes(lengths: HuffmanTable, distances: HuffmanTable): void {
+    while (true) {
+      this._mark();
+      const symbol = this._decode(lengths);
+      if (symbol < 256) {
+        this._reserve(1);
+        this._out[this._outLength++] = symbol;
+        continue;
+      }
+      if (symbol === 256) {
+        return;
+      }
+
+      const lengthCode = symbol - 257;
+      if (lengthCode >= LENGTH_BASE.length) {
+        throw new Error('Invalid length code');
+      }
+      const length = LENGTH_BASE[lengthCode] + this._bits(LENGTH_EXTRA[lengthCode]);
+      const distanceCode = this._decode(distances);
+      if (distanceCode >= DIST_BASE.length) {
+        throw new Error('Invalid distance code');
+      }
+      const distance = DIST_BASE[distanceCode] + this._bits(DIST_EXTRA[distanceCode]);
+      if (distance > this._outLength) {
+        throw new Error('Distance too far back');
+      }
+
+      // Byte by byte - the match may overlap the bytes it produces
+      this._reserve(length);
+      const out = this._out;
+      let from = this._outLength - distance;
+      for (let i = 0; i < length; i++) {
+        out[this._outLength++] = out[from++];
+      }
+    }
+  }
+}
+
+/**
+ * Decompress raw deflate data
+ * @param maxBytes - Most output to produce
+ * @throws DecompressedSizeError if the output would exceed `maxBytes`
+ */
+export function inflate(data: Uint8Array, maxBytes: number = Infinity): Uint8Array {
+  return new Inflater(data, 0, false, maxBytes).run();
+}
+
+/**
+ * Find the end of the gzip member header at `offset`
+ * @returns Offset of the deflate data, or -1 if the header is incomplete
+ * @throws Error if the data is not a gzip header
+ */
+function gzipHeaderEnd(data: Uint8Array, offset: number): number {
+  if (data.length - offset >= 2 && (data[offset] !== 0x1f || data[offset + 1] !== 0x8b)) {
+    throw new Error('Invalid gzip header');
+  }
+  if (data.length - offset >= 3 && data[offset + 2] !== 8) {
+    throw new Error(`Unsupported gzip compression method ${data[offset + 2]}`);
+  }
+  if (data.length - offset < 10) {
+    return -1;
+  }
+  const flags = data[offset + 3];
+  let pos = offset + 10;
+  if (flags & 0x04) {                     // FEXTRA
+    if (pos + 2 > data.length) {
+      return -1;
+    }
+    pos += 2 + (data[pos] | (data[pos + 1] << 8));
+  }
+  if (flags & 0x08) {                     // FNAME
+    while (pos < data.length && data[pos] !== 0) pos++;
+    pos++;
+  }
+  if (flags & 0x10) {                     // FCOMMENT
+    while (pos < data.length && data[pos] !== 0) pos++;
+    pos++;
+  }
+  if (flags & 0x02) {                     // FHCRC
+    pos += 2;
+  }
+  return pos <= data.length ? pos : -1;
+}
+
+/**
+ * Decompress a gzip file (all members, if there are several)
+ * @param maxBytes - Most output to produce, over all members
+ * @throws Error if the data is not valid gzip or fails its checksum
+ * @throws DecompressedSizeError if the output would exceed `maxBytes`
+ */
+export function gunzip(data: Uint8Array, maxBytes: number = Infinity): Uint8Array {
+  const members: Uint8Array[] = [];
+  let offset = 0;
+  let total = 0;
+
+  do {
+    if (data.length - offset < 18 || data[offset] !== 0x1f || data[offset + 1] !== 0x8b) {
+      throw new Error('Invalid gzip header');
+    }
+    let pos = gzipHeaderEnd(data, offset);
+    if (pos === -1 || pos >= data.length) {
+      throw new Error('Unexpected end of compressed data');
+    }
+
+    const inflater = new Inflater(data, pos, false, maxBytes - total);
+    let member: Uint8Array;
+    try {
+      member = inflater.run();
+    } catch (e) {
+      // Report the limit for the whole file, not what this member had left
+      throw e instanceof DecompressedSizeError ? new DecompressedSizeError(maxBytes) : e;
+    }
+    pos = inflater.pos;
+    if (pos + 8 > data.length) {
+      throw new Error('Unexpected end of compressed data');
+    }
+    const view = new DataView(data.buffer, data.byteOffset + pos, 8);
+    if (view.getUint32(0, true) !== crc32(member)) {
+      throw new Error('Gzip checksum mismatch');
+    }
+    if (view.getUint32(4, true) !== member.length % 0x100000000) {
+      throw new Error('Gzip length mismatch');
+    }
+    members.push(member);
+    total += member.length;
+    offset = pos + 8;
+  } while (offset + 1 < data.length && data[offset] === 0x1f && data[offset + 1] === 0x8b);
+
+  if (members.length === 1) {
+    return members[0];
+  }
+  const result = new Uint8Array(members.reduce((sum, member) => sum + member.length, 0));
+  let resultOffset = 0;
+  for (const member of members) {
+    result.set(member, resultOffset);
+    resultOffset += member.length;
+  }
+  return result;
+}
+
+/**
+ * Decompress zlib-wrapped deflate data
+ * @param maxBytes - Most output to produce
+ * @throws Error if the data is not valid zlib data or fails its checksum
+ * @throws DecompressedSizeError if the output would exceed `maxBytes`
+ */
+export function unzlib(data: Uint8Array, maxBytes: number = Infinity): Uint8Array {
+  if (!isZlibCompressed(data)) {
+    throw new Error('Invalid zlib header');
+  }
+  if (data[1] & 0x20) {
+    throw new Error('Zlib preset dictionaries are not supported');
+  }
+  const inflater = new Inflater(data, 2, false, maxBytes);
+  const result = inflater.run();
+  if (inflater.pos + 4 > data.length) {
+    throw new Error('Unexpected end of compressed data');
+  }
+  const view = new DataView(data.buffer, data.byteOffset + inflater.pos, 4);
+  if (view.getUint32(0, false) !== adler32(result)) {
+    throw new Error('Zlib checksum mismatch');
+  }
+  return result;
+}
+
+/**
+ * Check for the two-byte zlib header (deflate method, valid check bits)
+ */
+export function isZlibCompressed(data: Uint8Array): boolean {
+  return data.length >= 2 && (data[0] & 0x0f) === 8 && (data[0] >> 4) <= 7 && ((data[0] << 8) | data[1]) % 31 === 0;
+}
+
+/**
+ * Built-in Decompressor
+ */
+export function decompress(data: Uint8Array, format: CompressionFormat, maxBytes?: number): Uint8Array {
+  return format === 'gzip' ? gunzip(data, maxBytes) : unzlib(data, maxBytes);
+}
+
+/**
+ * Decompressor fed one chunk at a time
+ *
+ * Between chunks only the 32K window of output and the input not yet
+ * decoded are kept, so memory stays bounded however large the file is.
+ * Checks the same headers and checksums as gunzip() and unzlib().
+ */
+export class IncrementalDecompressor {
+  private _format: CompressionFormat;
+  private _input: Uint8Array = new Uint8Array(0);
+  /** Next unread byte of `_input` */
+  private _pos: number = 0;
+  private _state: 'header' | 'data' | 'trailer' | 'done' = 'header';
+  private _inflater: Inflater | null = null;
+  /** Gzip members decoded */
+  private _members: number = 0;
+  /** Checksum and length of the output of the current member */
+  private _checksum: number = 0;
+  private _length: number = 0;
+  /** Output of all members */
+  private _total: number = 0;
+  private _maxBytes: number;
+
+  /**
+   * Create a decompressor
+   * @param format - 'gzip', or 'deflate' for zlib-wrapped deflate data
+   * @param maxBytes - Most output to produce, over the whole stream
+   */
+  constructor(format: CompressionFormat, maxBytes: number = Infinity) {
+    this._format = format;
+    this._maxBytes = maxBytes;
+  }
+
+  /**
+   * Decompress the next chunk of input
+   * @returns The output the chunk completes (may be empty)
+   * @throws Error if the data is not valid or fails its checksum
+   * @throws DecompressedSizeError if the output would exceed `maxBytes`
+   */
+  push(chunk: Uint8Array): Uint8Array {
+    if (this._state === 'done') {
+      return new Uint8Array(0);
+    }
+    if (this._pos < this._input.length) {
+      const input = new Uint8Array(this._input.length - this._pos + chunk.length);
+      input.set(this._input.subarray(this._pos));
+      input.set(chunk, this._input.length - this._pos);
+      this._input = input;
+    } else {
+      this._input = chunk;
+    }
+    this._pos = 0;
+
+    const output: Uint8Array[] = [];
+    while (this._step(output)) {
+      // Decode until the input runs out
+    }
+    if (output.length === 1) {
+      return output[0];
+    }
+    const result = new Uint8Array(output.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of output) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  }
+
+  /**
+   * Finish decompressing
+   * @throws Error if the input ended before the compressed data did
+   */
+  end(): void {
+    const started = this._members === 0 || this._input.length - this._pos >= 2;
+    if (this._state === 'data' || this._state === 'trailer' || (this._state === 'header' && started)) {
+      throw new Error('Unexpected end of compressed data');
+    }
+  }
+
+  /**
+   * Take the next step the buffered input allows
+   * @returns false when more input is needed
+   */
+  private _step(output: Uint8Array[]): boolean {
+    const data = this._input;
+    const available = data.length - this._pos;
+    const gzip = this._format === 'gzip';
+
+    switch (this._state) {
+      case 'header': {
+        if (!gzip) {
+          if (available < 2) {
+            return false;
+          }
+          if (!isZlibCompressed(data.subarray(this._pos))) {
+            throw new Error('Invalid zlib header');
+          }
+          if (data[this._pos + 1] & 0x20) {
+            throw new Error('Zlib preset dictionaries are not supported');
+          }
+          this._pos += 2;
+        } else {
+          // Anything but another member after the first is ignored, as gunzip() does
+          if (this._members > 0 && available >= 2 && (data[this._pos] !== 0x1f || data[this._pos + 1] !== 0x8b)) {
+            this._state = 'done';
+            return false;
+          }
+          const end = gzipHeaderEnd(data, this._pos);
+          if (end === -1) {
+            return false;
+          }
+          this._pos = end;
+        }
+        this._inflater = new Inflater(data, this._pos, true, this._maxBytes - this._total);
+        this._checksum = gzip ? 0 : 1;
+        this._length = 0;
+        this._state = 'data';
+        return true;
+      }
+      case 'data': {
+        const inflater = this._inflater!;
+        inflater.input(data, this._pos);
+        let done: boolean;
+        try {
+          done = inflater.inflate();
+        } catch (e) {
+          throw e instanceof DecompressedSizeError ? new DecompressedSizeError(this._maxBytes) : e;
+        }
+        this._pos = inflater.pos;
+        const decoded = inflater.take();
+        if (decoded.length > 0) {
+          this._checksum = gzip ? crc32(decoded, this._checksum) : adler32(decoded, this._checksum);
+          this._length += decoded.length;
+          this._total += decoded.length;
+          output.push(decoded);
+        }
+        if (!done) {
+          return false;
+        }
+        this._inflater = null;
+        this._state = 'trailer';
+        return true;
+      }
+      case 'trailer': {
+        const size = gzip ? 8 : 4;
+        if (available < size) {
+          return false;
+        }
+        const view = new DataView(data.buffer, data.byteOffset + this._pos, size);
+        if (gzip) {
+          if (view.getUint32(0, true) !== this._checksum) {
+            throw new Error('Gzip checksum mismatch');
+          }
+          if (view.getUint32(4, true) !== this._length % 0x100000000) {
+            throw new Error('Gzip length mismatch');
+          }
+        } else if (view.getUint32(0, false) !== this._checksum) {
+          throw new Error('Zlib checksum mismatch');
+        }
+        this._pos += size;
+        this._members++;
+        this._state = gzip ? 'header' : 'done';
+        return true;
+      }
+      case 'done':
+        return false;
+    }
+  }
+}
+
+// ============================================
+// Deflate
+// ============================================
+
+/** LZ77 hash table parameters */
+const HASH_BITS = 15;
+const MAX_CHAIN = 64;
+const MAX_MATCH = 258;
+
+/**
+ * LSB-first bit output
+ */
+class BitWriter {
+  private _out: Uint8Array;
+  private _length: number = 0;
+  private _bitBuffer: number = 0;
+  private _bitCount: number = 0;
+
+  constructor(capacity: number) {
+    this._out = new Uint8Array(Math.max(64, capacity));
+  }
+
+  bits(value: number, count: number): void {
+    this._bitBuffer |= value << this._bitCount;
+    this._bitCount += count;
+    while (this._bitCount >= 8) {
+      this._byte(this._bitBuffer & 0xff);
+      this._bitBuffer >>>= 8;
+      this._bitCount -= 8;
+    }
+  }
+
+  bytes(data: Uint8Array): void {
+    this.flush();
+    if (this._length + data.length > this._out.length) {
+      this._grow(data.length);
+    }
+    this._out.set(data, this._length);
+    this._length += data.length;
+  }
+
+  /** Pad to a byte boundary */
+  flush(): void {
+    if (this._bitCount > 0) {
+      this._byte(this._bitBuffer & 0xff);
+      this._bitBuffer = 0;
+      this._bitCount = 0;
+    }
+  }
+
+  finish(): Uint8Array {
+    this.flush();
+    return this._out.subarray(0, this._length);
+  }
+
+  private _byte(value: number): void {
+    if (this._length === this._out.length) {
+      this._grow(1);
+    }
+    this._out[this._length++] = value;
+  }
+
+  private _grow(count: number): void {
+    const grown = new Uint8Array(Math.max(this._out.length * 2, this._length + count));
+    grown.set(this._out.subarray(0, this._length));
+    this._out = grown;
+  }
+}
+
+let fixedCodes: Uint16Array | null = null;
+
+/**
+ * Find the code whose base is the largest one not above `value`
+ */
+function baseCode(bases: number[], value: number): number {
+  let code = bases.length - 1;
+  while (bases[code] > value) code--;
+  return code;
+}
+
+/**
+ * Compress data into raw deflate format
+ *
+ * Uses LZ77 matching over a 32K window with the fixed Huffman codes: not as
+ * tight as zlib, but compact, fast, and readable by any inflater.
+ */
+export function deflate(data: Uint8Array): Uint8Array {
+  fixedCodes ??= canonicalCodes(FIXED_LENGTHS.subarray(0, 288));
+  const literalCodes = fixedCodes;
+  const out = new BitWriter(data.length / 2 + 16);
+
+  out.bits(1, 1);   // BFINAL
+  out.bits(1, 2);   // Fixed Huffman codes
+
+  const head = new Int32Array(1 << HASH_BITS).fill(-1);
+  const previous = new Int32Array(WINDOW_SIZE);
+  const hash = (i: number) =>
+    Math.imul((data[i] << 16) | (data[i + 1] << 8) | data[i + 2], 2654435761) >>> (32 - HASH_BITS);
+  const insert = (i: number) => {
+    const h = hash(i);
+    previous[i & (WINDOW_SIZE - 1)] = head[h];
+    head[h] = i;
+  };
+  const literal = (symbol: number) => out.bits(literalCodes[symbol], FIXED_LENGTHS[symbol]);
+
+  let i = 0;
+  while (i < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (i + 2 < data.length) {
+      const maxLength = Math.min(MAX_MATCH, data.length - i);
+      let candidate = head[hash(i)];
+      for (let chain = 0; candidate >= 0 && i - candidate <= WINDOW_SIZE && chain < MAX_CHAIN; chain++) {
+        if (data[candidate + bestLength] === data[i + bestLength]) {
+          let length = 0;
+          while (length < maxLength && data[candidate + length] === data[i + length]) length++;
+          if (length > bestLength) {
+            bestLength = length;
+            bestDistance = i - candidate;
+            if (length === maxLength) break;
+          }
+        }
+        candidate = previous[candidate & (WINDOW_SIZE - 1)];
+      }
+      insert(i);
+    }
+
+    if (bestLength < 3) {
+      literal(data[i++]);
+      continue;
+    }
+
+    const lengthCode = baseCode(LENGTH_BASE, bestLength);
+    literal(257 + lengthCode);
+    out.bits(bestLength - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode]);
+    const distanceCode = baseCode(DIST_BASE, bestDistance);
+    out.bits(reverseBits(distanceCode, 5), 5);
+    out.bits(bestDistance - DIST_BASE[distanceCode], DIST_EXTRA[distanceCode]);
+
+    // Index the rest of the match for later searches
+    const end = i + bestLength;
+    for (i++; i < end; i++) {
+      if (i + 2 < data.length) insert(i);
+    }
+  }
+
+  literal(256);
+  const compressed = out.finish();
+
+  // Incompressible data is smaller in stored blocks
+  const blocks = Math.max(1, Math.ceil(data.length / 65535));
+  return compressed.length > data.length + blocks * 5 ? stored(data) : compressed;
+}
+
+/**
+ * Wrap data in uncompressed (stored) deflate blocks
+ */
+function stored(data: Uint8Array): Uint8Array {
+  const out = new BitWriter(data.length + 5 * Math.ceil(data.length / 65535) + 5);
+  let offset = 0;
+  do {
+    const length = Math.min(65535, data.length - offset);
+    out.bits(offset + length === data.length ? 1 : 0, 1);
+    out.bits(0, 2);
+    out.flush();
+    out.bits(length, 16);
+    out.bits(length ^ 0xffff, 16);
+    out.bytes(data.subarray(offset, offset + length));
+    offset += length;
+  } while (offset < data.length);
+  return out.finish();
+}
+
+/**
+ * Compress data into a gzip file (the built-in Compressor)
+ */
+export function gzip(data: Uint8Array): Uint8Array {
+  const out = new BitWriter(data.length / 2 + 32);
+  out.bytes(new Uint8Array([0x1f, 0x8b, 8, 0, 0, 0, 0, 0, 0, 0xff]));
+  out.bytes(deflate(data));
+  const trailer = new DataView(new ArrayBuffer(8));
+  trailer.setUint32(0, crc32(data), true);
+  trailer.setUint32(4, data.length % 0x100000000, true);
+  out.bytes(new Uint8Array(trailer.buffer));
+  return out.finish();
+}
@@ -105,6 +105,9 @@ export enum HeaderFlags {
   Transposed = 1       // Data is stored in transposed form
 }
 
+/** Byte order of a binary GTO file */
+export type ByteOrder = 'little' | 'big';
+
 /**
  * Header structure for GTO files
  */
@@ -114,6 +117,7 @@ export class Header {
   numObjects: number = 0;
   version: number = GTO_VERSION;
   flags: number = 0;
+  byteOrder: ByteOrder | null = null;  // Detected from the magic number; null for text files
 }
 
 /**
@@ -155,19 +159,20 @@ export class PropertyInfo {
   interpretation: string = '';
   type: DataType = DataType.Float;
   size: number = 0;           // Number of elements
-  width: number = 1;          // Parts per element (e.g., 3 for xyz)
-  dims: [number, number, number, number] = [1, 1, 1, 1]; // Up to 4 dimensional shape
+  width: number = 1;          // Parts per element (e.g., 3 for xyz, 16 for float[4,4])
+  dims: [number, number, number, number] = [1, 1, 1, 1]; // Shape of each element, all 1s unless multi-dimensional
   // Internal tracking
   _nameId: number = 0;
   _interpretationId: number = 0;
   _component: ComponentInfo | null = null;
   _dataOffset: number = 0;
+  _dataStride: number = 0;    // Bytes between elements in a transposed component, 0 if contiguous
 
   /**
-   * Get total number of values (size * width * all dims)
+   * Get total number of values (size * width)
    */
   get totalCount(): number {
-    return this.size * this.width * this.dims.reduce((a, b) => a * b, 1);
+    return this.size * this.width;
   }
 
   /**
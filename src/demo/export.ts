@@ -1,5 +1,5 @@
 /**
- * Export functions: JSON, text GTO, binary GTO exports
+ * Export functions: JSON, text GTO, binary and compressed binary GTO exports
  */
 import { SimpleWriter } from 'gto-js';
 import { getGtoData } from './state';
@@ -72,6 +72,26 @@ export function exportBinaryGTO(): void {
   document.getElementById('export-menu')?.classList.remove('show');
 }
 
+export async function exportCompressedGTO(): Promise<void> {
+  const gtoData = getGtoData();
+  if (!gtoData) return;
+
+  try {
+    const compressed = await SimpleWriter.writeAsync(gtoData, { compressed: true });
+    const blob = new Blob([compressed], { type: 'application/gzip' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'session.gto';
+    a.click();
+    URL.revokeObjectURL(url);
+  } catch (e) {
+    console.error('Export error:', e);
+    alert('Failed to export as compressed binary: ' + (e as Error).message);
+  }
+  document.getElementById('export-menu')?.classList.remove('show');
+}
+
 export function setupExportMenuClose(): void {
   document.addEventListener('click', function(e) {
     const dropdown = document.getElementById('export-btn');
@@ -1,7 +1,7 @@
 /**
  * File handling: loading and parsing GTO files
  */
-import { SimpleReader } from 'gto-js';
+import { parseInWorker } from 'gto-js';
 import { state, setGtoData, setFileInfo } from './state';
 
 export type ParseCallback = (filename: string) => void;
@@ -50,19 +50,20 @@ export function loadFile(file: File): void {
   }
 }
 
-export function parseGTO(content: string | ArrayBuffer, filename: string, fileSize?: number): boolean {
-  const reader = new SimpleReader();
-  const success = reader.open(content, filename);
+export async function parseGTO(content: string | ArrayBuffer, filename: string, fileSize?: number): Promise<boolean> {
+  // Measure before the buffer is handed to the worker
+  const size = fileSize ?? (typeof content === 'string' ? content.length : content.byteLength);
 
-  if (!success) {
-    alert('Failed to parse GTO file');
+  // Parse off the UI thread so large files do not freeze the page
+  try {
+    const { result } = await parseInWorker(content, { name: filename });
+    setGtoData(result);
+  } catch (error) {
+    alert(`Failed to parse GTO file\n\n${error instanceof Error ? error.message : error}`);
     return false;
   }
 
-  setGtoData(reader.result);
-
   // Set file info for status bar
-  const size = fileSize ?? (typeof content === 'string' ? content.length : content.byteLength);
   setFileInfo(filename, size);
 
   if (onParseSuccess) {
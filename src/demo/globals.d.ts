@@ -27,6 +27,7 @@ interface Window {
   exportJSON: () => void;
   exportTextGTO: () => void;
   exportBinaryGTO: () => void;
+  exportCompressedGTO: () => Promise<void>;
   toggleExportMenu: () => void;
   copyJSON: () => void;
   downloadJSON: () => void;
@@ -42,7 +42,7 @@ import {
 } from './panels';
 
 // Export functions
-import { exportJSON, exportTextGTO, exportBinaryGTO, toggleExportMenu, copyJSON, downloadJSON, setupExportMenuClose } from './export';
+import { exportJSON, exportTextGTO, exportBinaryGTO, exportCompressedGTO, toggleExportMenu, copyJSON, downloadJSON, setupExportMenuClose } from './export';
 
 // Theme handling
 import { toggleTheme, loadTheme } from './theme';
@@ -129,6 +129,7 @@ function setupWindowGlobals(): void {
   window.exportJSON = exportJSON;
   window.exportTextGTO = exportTextGTO;
   window.exportBinaryGTO = exportBinaryGTO;
+  window.exportCompressedGTO = exportCompressedGTO;
   window.toggleExportMenu = toggleExportMenu;
   window.copyJSON = copyJSON;
   window.downloadJSON = downloadJSON;
@@ -37,8 +37,9 @@ export function formatDataPreview(prop: PropertyData): string {
   if (!data || data.length === 0) return '<empty>';
 
   if (prop.type === 'string') {
-    if (data.length === 1) return `"${escapeHtml(data[0])}"`;
-    return `["${data.slice(0, 3).map(s => escapeHtml(s)).join('", "')}${data.length > 3 ? '", ...' : '"]'}`;
+    const strings = data as string[];
+    if (strings.length === 1) return `"${escapeHtml(strings[0])}"`;
+    return `["${strings.slice(0, 3).map(s => escapeHtml(s)).join('", "')}${data.length > 3 ? '", ...' : '"]'}`;
   }
 
   if (data.length <= 4) {
@@ -17,19 +17,35 @@
  *   .map(obj => obj.component('media').property('movie').value());
  */
 
+/** Typed array holding flat property values (see the reader's `typedArrays` option) */
+export type PropertyTypedArray =
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array
+  | Uint16Array
+  | Uint8Array
+  | BigInt64Array;
+
 /** Property data structure */
 export interface PropertyData {
   type: string;
   size: number;
   width: number;
+  /** Shape of each element for multi-dimensional types such as float[4,4] (product equals width) */
+  dims?: number[];
   interpretation: string;
-  data: unknown[];
+  data: unknown[] | PropertyTypedArray;
 }
 
 /** Component data structure */
 export interface ComponentData {
   interpretation: string;
   properties: Record<string, PropertyData>;
+  /** Binary data is stored transposed (element by element) */
+  transposed?: boolean;
+  /** Nested child components (GTO v4) */
+  components?: Record<string, ComponentData>;
 }
 
 /** Object data structure */
@@ -289,24 +305,45 @@ export class PropertyDTO {
   /** Parts per element (e.g., 3 for float3) */
   get width(): number { return this._data.width; }
 
+  /** Shape of each element (e.g., [4, 4]), or undefined for plain widths */
+  get dims(): number[] | undefined { return this._data.dims; }
+
   /** Interpretation string */
   get interpretation(): string { return this._data.interpretation; }
 
-  /** Raw data array */
-  get data(): unknown[] { return this._data.data; }
+  /** Raw data array (flat typed array when read with `typedArrays`) */
+  get data(): unknown[] | PropertyTypedArray { return this._data.data; }
 
   /** Parent component */
   get parent(): ComponentDTO | null { return this._parent; }
 
+  /**
+   * Get the data as an array of elements
+   * Flat typed arrays are grouped by width into subarray views
+   */
+  elements(): unknown[] {
+    const d = this._data.data;
+    if (!d) return [];
+    if (Array.isArray(d)) return d;
+
+    const width = this._data.width || 1;
+    if (width <= 1) return Array.from(d as ArrayLike<unknown>);
+
+    const elements: unknown[] = [];
+    for (let i = 0; i < d.length; i += width) {
+      elements.push(d.subarray(i, i + width));
+    }
+    return elements;
+  }
+
   /**
    * Get the value (unwraps single values from arrays)
    * @returns Single value or array
    */
   value(): unknown {
-    const d = this._data.data;
-    if (!d || d.length === 0) return null;
-    if (d.length === 1 && !Array.isArray(d[0])) return d[0];
-    if (d.length === 1 && Array.isArray(d[0])) return d[0];
+    const d = this.elements();
+    if (d.length === 0) return null;
+    if (d.length === 1) return d[0];
     return d;
   }
 
@@ -314,7 +351,7 @@ export class PropertyDTO {
    * Get value at specific index
    */
   at(index: number): unknown {
-    return this._data.data?.[index] ?? null;
+    return this.elements()[index] ?? null;
   }
 
   /**
@@ -328,8 +365,8 @@ export class PropertyDTO {
    * Get last value
    */
   last(): unknown {
-    const d = this._data.data;
-    return d?.[d.length - 1] ?? null;
+    const d = this.elements();
+    return d[d.length - 1] ?? null;
   }
 
   /**
@@ -338,6 +375,7 @@ export class PropertyDTO {
   flat(): unknown[] {
     const d = this._data.data;
     if (!d) return [];
+    if (!Array.isArray(d)) return Array.from(d as ArrayLike<unknown>);
     return d.flat(Infinity);
   }
 
@@ -360,14 +398,14 @@ export class PropertyDTO {
    * Map over values
    */
   map<T>(fn: (value: unknown, index: number) => T): T[] {
-    return (this._data.data || []).map(fn);
+    return this.elements().map(fn);
   }
 
   /**
    * Filter values
    */
   filter(fn: (value: unknown, index: number) => boolean): unknown[] {
-    return (this._data.data || []).filter(fn);
+    return this.elements().filter(fn);
   }
 
   /**
@@ -395,10 +433,11 @@ class NullPropertyDTO extends PropertyDTO {
 export class ComponentDTO {
   protected _name: string;
   protected _data: ComponentData;
-  protected _parent: ObjectDTO | null;
+  protected _parent: ObjectDTO | ComponentDTO | null;
   private _propertyCache: Map<string, PropertyDTO> = new Map();
+  private _componentCache: Map<string, ComponentDTO> = new Map();
 
-  constructor(name: string, data: ComponentData, parent: ObjectDTO | null) {
+  constructor(name: string, data: ComponentData, parent: ObjectDTO | ComponentDTO | null) {
     this._name = name;
     this._data = data;
     this._parent = parent;
@@ -410,8 +449,50 @@ export class ComponentDTO {
   /** Interpretation string */
   get interpretation(): string { return this._data.interpretation; }
 
-  /** Parent object */
-  get parent(): ObjectDTO | null { return this._parent; }
+  /** Parent object, or parent component for nested components */
+  get parent(): ObjectDTO | ComponentDTO | null { return this._parent; }
+
+  /** Object that owns this component, however deeply nested */
+  get object(): ObjectDTO | null {
+    return this._parent instanceof ComponentDTO ? this._parent.object : this._parent;
+  }
+
+  /** Nesting depth: 0 for components directly in an object */
+  get level(): number {
+    return this._parent instanceof ComponentDTO ? this._parent.level + 1 : 0;
+  }
+
+  /**
+   * Get nested child component by name
+   */
+  component(name: string): ComponentDTO {
+    if (!this._componentCache.has(name)) {
+      const comp = this._data.components?.[name];
+      this._componentCache.set(name, comp ? new ComponentDTO(name, comp, this) : new NullComponentDTO(name));
+    }
+    return this._componentCache.get(name)!;
+  }
+
+  /**
+   * Check if nested child component exists
+   */
+  hasComponent(name: string): boolean {
+    return name in (this._data.components || {});
+  }
+
+  /**
+   * Get all nested child component names
+   */
+  componentNames(): string[] {
+    return Object.keys(this._data.components || {});
+  }
+
+  /**
+   * Get all nested child components as ComponentDTO array
+   */
+  children(): ComponentDTO[] {
+    return this.componentNames().map(name => this.component(name));
+  }
 
   /**
    * Get property by name
@@ -0,0 +1,164 @@
+/**
+ * GTO Parse Errors
+ *
+ * Typed errors raised while reading GTO files. Every error carries an error
+ * code plus whatever location the parser knew at the time: file name,
+ * line/column for text files, byte offset for binary files, and the object,
+ * component and property being parsed.
+ */
+
+/** Error codes for parse failures */
+export enum ParseErrorCode {
+  UnknownFormat = 'UNKNOWN_FORMAT',          // Not a text or binary GTO file
+  InvalidMagic = 'INVALID_MAGIC',            // Binary magic number mismatch
+  InvalidHeader = 'INVALID_HEADER',          // Malformed "GTOa (version)" header
+  UnexpectedCharacter = 'UNEXPECTED_CHARACTER',
+  UnexpectedToken = 'UNEXPECTED_TOKEN',
+  UnexpectedEOF = 'UNEXPECTED_EOF',
+  UnknownType = 'UNKNOWN_TYPE',              // Unknown property data type
+  SizeMismatch = 'SIZE_MISMATCH',            // Declared size disagrees with the data
+  InvalidStringId = 'INVALID_STRING_ID',     // String table index out of range
+  Truncated = 'TRUNCATED',                   // Binary data ends early
+  Compression = 'COMPRESSION',               // Gzip data could not be decompressed
+  LimitExceeded = 'LIMIT_EXCEEDED',          // File exceeds a ReaderLimits cap
+  Internal = 'INTERNAL'                      // Any other failure (e.g. thrown by a callback)
+}
+
+/** Where a parse error occurred */
+export interface ParseErrorLocation {
+  fileName?: string;
+  line?: number;                 // 1-based, text files
+  column?: number;               // 1-based, text files
+  offset?: number;               // Byte offset, binary files
+  object?: string;
+  component?: string;
+  property?: string;
+}
+
+/** Severity of a parse diagnostic */
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/** A problem reported while parsing, with its location */
+export interface ParseDiagnostic extends ParseErrorLocation {
+  severity: DiagnosticSeverity;
+  code: ParseErrorCode;
+  /** Description including location */
+  message: string;
+  /** Description without location */
+  reason: string;
+}
+
+/**
+ * Base class for all GTO parse errors
+ */
+export class GTOParseError extends Error {
+  readonly code: ParseErrorCode;
+  /** Error description without location information */
+  readonly reason: string;
+  fileName?: string;
+  line?: number;
+  column?: number;
+  offset?: number;
+  object?: string;
+  component?: string;
+  property?: string;
+
+  constructor(code: ParseErrorCode, reason: string, location: ParseErrorLocation = {}, options?: { cause?: unknown }) {
+    super(reason, options);
+    this.name = 'GTOParseError';
+    this.code = code;
+    this.reason = reason;
+    this._locate(location);
+  }
+
+  /**
+   * Fill in location fields that are not yet known and refresh the message
+   * @internal
+   */
+  _locate(location: ParseErrorLocation): this {
+    this.fileName ??= location.fileName;
+    this.line ??= location.line;
+    this.column ??= location.column;
+    this.offset ??= location.offset;
+    this.object ??= location.object;
+    this.component ??= location.component;
+    this.property ??= location.property;
+    this.message = this._format();
+    return this;
+  }
+
+  /**
+   * Convert to a plain diagnostic record
+   */
+  toDiagnostic(severity: DiagnosticSeverity = 'error'): ParseDiagnostic {
+    return {
+      severity,
+      code: this.code,
+      message: this.message,
+      reason: this.reason,
+      fileName: this.fileName,
+      line: this.line,
+      column: this.column,
+      offset: this.offset,
+      object: this.object,
+      component: this.component,
+      property: this.property
+    };
+  }
+
+  /**
+   * Build "file:line:column: reason (in object 'a', component 'b', property 'c')"
+   */
+  private _format(): string {
+    let where = this.fileName ?? '';
+    if (this.line !== undefined) {
+      where += `:${this.line}`;
+      if (this.column !== undefined) {
+        where += `:${this.column}`;
+      }
+    } else if (this.offset !== undefined) {
+      where += `@${this.offset}`;
+    }
+
+    const context: string[] = [];
+    if (this.object !== undefined) context.push(`object '${this.object}'`);
+    if (this.component !== undefined) context.push(`component '${this.component}'`);
+    if (this.property !== undefined) context.push(`property '${this.property}'`);
+
+    let message = where ? `${where}: ${this.reason}` : this.reason;
+    if (context.length > 0) {
+      message += ` (in ${context.join(', ')})`;
+    }
+    return message;
+  }
+}
+
+/**
+ * Error in a text (.rv) file - carries line and column
+ */
+export class GTOSyntaxError extends GTOParseError {
+  constructor(code: ParseErrorCode, reason: string, location: ParseErrorLocation = {}, options?: { cause?: unknown }) {
+    super(code, reason, location, options);
+    this.name = 'GTOSyntaxError';
+  }
+}
+
+/**
+ * Error in a binary (.gto) file - carries the byte offset
+ */
+export class GTOBinaryError extends GTOParseError {
+  constructor(code: ParseErrorCode, reason: string, location: ParseErrorLocation = {}, options?: { cause?: unknown }) {
+    super(code, reason, location, options);
+    this.name = 'GTOBinaryError';
+  }
+}
+
+/**
+ * Error detecting or decoding the file container (unknown format, gzip)
+ */
+export class GTOFormatError extends GTOParseError {
+  constructor(code: ParseErrorCode, reason: string, location: ParseErrorLocation = {}, options?: { cause?: unknown }) {
+    super(code, reason, location, options);
+    this.name = 'GTOFormatError';
+  }
+}
@@ -46,16 +46,46 @@ export {
   ComponentInfo,
   PropertyInfo
 } from './constants.js';
+export type { ByteOrder } from './constants.js';
 
 // String table
 export { StringTable } from './string-table.js';
 
+// Errors
+export {
+  ParseErrorCode,
+  GTOParseError,
+  GTOSyntaxError,
+  GTOBinaryError,
+  GTOFormatError
+} from './errors.js';
+export type { ParseErrorLocation, ParseDiagnostic, DiagnosticSeverity } from './errors.js';
+
 // Reader classes
-export { Reader, SimpleReader } from './reader.js';
+export { Reader, SimpleReader, detectFormat } from './reader.js';
+export type { ReaderOptions, ReaderLimits, PropertyValues, GTOFormat } from './reader.js';
+export { readObjects } from './read-objects.js';
+export type { ObjectFilter, ObjectSource, ReadObjectsOptions } from './read-objects.js';
+export { verifyBinary } from './verify.js';
+export type { BinaryReport, BinarySection, BinarySectionName, BinarySalvage } from './verify.js';
+export { parseInWorker, WorkerPool } from './worker.js';
+export type {
+  ParseProgress,
+  WorkerParseOptions,
+  WorkerParseResult,
+  WorkerPoolOptions,
+  WorkerReaderOptions,
+  WorkerLike,
+  WebWorkerLike,
+  NodeWorkerLike
+} from './worker.js';
 
 // Writer classes
 export { Writer, SimpleWriter } from './writer.js';
-export type { WriteOptions } from './writer.js';
+export type { WriteOptions, WriterOptions, TextFormatOptions } from './writer.js';
+export { StreamWriter } from './stream-writer.js';
+export { canonicalize } from './canonical.js';
+export type { OutputSink, ChunkCallback, NodeWritableLike } from './stream-writer.js';
 
 // Builder
 export { GTOBuilder, polygon, transform } from './builder.js';
@@ -67,6 +97,7 @@ export type {
   ObjectData,
   ComponentData,
   PropertyData,
+  PropertyTypedArray,
   TimelineInfo,
   Annotation,
   SessionInfo,
@@ -84,11 +115,17 @@ export type {
   StereoOptions
 } from './dto.js';
 
+// Compression
+export { gzip, gunzip, deflate, inflate, unzlib, crc32, DecompressedSizeError } from './compression.js';
+export type { CompressionFormat, Compressor, Decompressor } from './compression.js';
+
 // Utilities
 export {
   halfToFloat,
   floatToHalf,
   isLittleEndian,
   parseDimensions,
-  formatDimensions
+  formatDimensions,
+  elementShape,
+  padDimensions
 } from './utils.js';
@@ -0,0 +1,148 @@
+/**
+ * Object Iteration
+ *
+ * High-level async iteration over the objects of a GTO file, built on the
+ * streaming Reader. Objects are yielded one at a time as soon as they are
+ * complete, and a declarative filter replaces overriding object() and
+ * component() to skip data.
+ *
+ * @example
+ * for await (const obj of readObjects(response.body!, { protocol: 'RVFileSource' })) {
+ *   console.log(obj.name, new ObjectDTO(obj).prop('media', 'movie'));
+ * }
+ */
+
+import { Request } from './constants.js';
+import type { ObjectInfo, ComponentInfo } from './constants.js';
+import { SimpleReader } from './reader.js';
+import type { ReaderOptions } from './reader.js';
+import type { ObjectData } from './dto.js';
+
+/** Which objects and components readObjects() materializes */
+export interface ObjectFilter {
+  /** Only read objects with this protocol (or one of these protocols) */
+  protocol?: string | string[];
+  /** Only read objects whose name matches (string patterns are regular expressions) */
+  name?: RegExp | string;
+  /**
+   * Only read these top-level components (with everything nested in them);
+   * objects are still yielded without the others
+   */
+  components?: string[];
+}
+
+/** Options for readObjects() */
+export interface ReadObjectsOptions extends ReaderOptions {
+  /** Filename for error messages */
+  name?: string;
+}
+
+/** File content or a stream of it: text, binary or gzip-compressed */
+export type ObjectSource =
+  | string
+  | ArrayBuffer
+  | Uint8Array
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array | string>;
+
+/**
+ * SimpleReader that skips everything the filter excludes
+ */
+class FilteringReader extends SimpleReader {
+  /** Number of objects at the start of result.objects that are complete */
+  complete: number = 0;
+  private _protocolFilter: Set<string> | null;
+  private _nameFilter: RegExp | null;
+  private _componentFilter: Set<string> | null;
+
+  constructor(filter: ObjectFilter, options: ReaderOptions) {
+    super(options);
+    const protocols = typeof filter.protocol === 'string' ? [filter.protocol] : filter.protocol;
+    this._protocolFilter = protocols ? new Set(protocols) : null;
+    this._nameFilter = typeof filter.name === 'string' ? new RegExp(filter.name) : filter.name ?? null;
+    this._componentFilter = filter.components ? new Set(filter.components) : null;
+  }
+
+  override object(name: string, protocol: string, protocolVersion: number, info: ObjectInfo): Request {
+    // Reaching the next object (read or not) completes all previous ones
+    this.complete = this.result.objects.length;
+    if ((this._protocolFilter && !this._protocolFilter.has(protocol)) ||
+        (this._nameFilter && !this._nameFilter.test(name))) {
+      return Request.Skip;
+    }
+    return super.object(name, protocol, protocolVersion, info);
+  }
+
+  override component(name: string, info: ComponentInfo): Request {
+    if (this._componentFilter && info.childLevel === 0 && !this._componentFilter.has(name)) {
+      return Request.Skip;
+    }
+    return super.component(name, info);
+  }
+}
+
+/**
+ * Iterate over the chunks of a source
+ * Cancels a ReadableStream when iteration stops early.
+ */
+async function* chunksOf(source: ObjectSource): AsyncGenerator<Uint8Array | string | ArrayBuffer> {
+  if (typeof source === 'string' || source instanceof ArrayBuffer || source instanceof Uint8Array) {
+    yield source;
+    return;
+  }
+
+  if (source instanceof ReadableStream) {
+    const reader = source.getReader();
+    let finished = false;
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          finished = true;
+          return;
+        }
+        yield value;
+      }
+    } finally {
+      if (!finished) {
+        await reader.cancel();
+      }
+      reader.releaseLock();
+    }
+  } else {
+    yield* source;
+  }
+}
+
+/**
+ * Read the objects of a GTO file one at a time
+ *
+ * Each object is yielded, fully materialized like SimpleReader's result, as
+ * soon as all of its data has been read. Objects and components excluded by
+ * the filter are skipped without decoding their data. Wrap the results in
+ * ObjectDTO for the query API.
+ * @param source - File content, a ReadableStream, or an async iterable of chunks
+ * @param filter - Which objects and components to read
+ * @param options - Reader options
+ * @throws GTOParseError if the file cannot be parsed
+ */
+export async function* readObjects(
+  source: ObjectSource,
+  filter: ObjectFilter = {},
+  options: ReadObjectsOptions = {}
+): AsyncGenerator<ObjectData> {
+  const { name = '<stream>', ...readerOptions } = options;
+  const reader = new FilteringReader(filter, { ...readerOptions, throwOnError: true });
+  const objects = reader.result.objects;
+
+  reader.beginStream(name);
+  for await (const chunk of chunksOf(source)) {
+    await reader.write(chunk);
+    const complete = objects.splice(0, reader.complete);
+    reader.complete = 0;
+    yield* complete;
+  }
+  await reader.end();
+
+  yield* objects.splice(0);
+}
@@ -14,73 +14,362 @@ import {
   GTO_MAGIC,
   ReaderMode,
   Request,
+  HeaderFlags,
   Header,
   ObjectInfo,
   ComponentInfo,
   PropertyInfo
 } from './constants.js';
 import { StringTable } from './string-table.js';
-import { halfToFloat } from './utils.js';
-import type { GTOData, ObjectData, ComponentData, PropertyData } from './dto.js';
+import {
+  ParseErrorCode,
+  GTOParseError,
+  GTOSyntaxError,
+  GTOBinaryError,
+  GTOFormatError
+} from './errors.js';
+import type { ParseErrorLocation, ParseDiagnostic } from './errors.js';
+import { isLittleEndian, elementShape, padDimensions, nestValues } from './utils.js';
+import { decodeValues } from './binary-data.js';
+import { ByteQueue, TextSplitter } from './stream.js';
+import { decompress, isZlibCompressed, DecompressedSizeError, IncrementalDecompressor } from './compression.js';
+import type { CompressionFormat, Decompressor } from './compression.js';
+import type { TextSegment } from './stream.js';
+import type { GTOData, ObjectData, ComponentData, PropertyData, PropertyTypedArray } from './dto.js';
+
+/** Host byte order, used to decide when typed arrays can view file bytes directly */
+const HOST_LITTLE_ENDIAN = isLittleEndian();
+
+/** Constructor shape shared by all property typed arrays */
+interface TypedArrayConstructor {
+  new (length: number): PropertyTypedArray;
+  new (buffer: ArrayBufferLike, byteOffset: number, length: number): PropertyTypedArray;
+  readonly BYTES_PER_ELEMENT: number;
+}
 
-/** Gzip magic bytes */
-const GZIP_MAGIC = 0x1f8b;
+/** Typed array used for each data type with the typedArrays option */
+const TypedArrayForType: Record<DataType, TypedArrayConstructor> = {
+  [DataType.Int]: Int32Array,
+  [DataType.Float]: Float32Array,
+  [DataType.Double]: Float64Array,
+  [DataType.Half]: Float32Array,     // Expanded to 32-bit floats
+  [DataType.String]: Uint32Array,    // String table indices
+  [DataType.Boolean]: Uint8Array,
+  [DataType.Short]: Uint16Array,
+  [DataType.Byte]: Uint8Array,
+  [DataType.Int64]: BigInt64Array
+};
+
+/** Property values delivered to dataRead() (bigint[] only for int64 data read with `bigInt`) */
+export type PropertyValues = number[] | bigint[] | PropertyTypedArray;
+
+/** Options for Reader and SimpleReader */
+export interface ReaderOptions {
+  /**
+   * Deliver property data as typed arrays instead of number[].
+   * Binary data is viewed straight over the file buffer when byte order
+   * and alignment allow, and copied otherwise.
+   */
+  typedArrays?: boolean;
+  /**
+   * Throw a GTOParseError from open()/openAsync() instead of logging it
+   * and returning false
+   */
+  throwOnError?: boolean;
+  /**
+   * Recover from errors in text files: skip the broken object, component
+   * or property, report it in `diagnostics`, and keep parsing
+   */
+  lenient?: boolean;
+  /**
+   * Deliver int64 data as bigint[] instead of number[], so values beyond
+   * 2^53 are exact. Typed arrays always hold int64 data as BigInt64Array.
+   */
+  bigInt?: boolean;
+  /**
+   * Decompress gzip and deflate data, replacing the built-in inflater
+   * (for example with Node's zlib)
+   */
+  decompress?: Decompressor;
+  /**
+   * Caps on what a file may contain, for reading untrusted input
+   */
+  limits?: ReaderLimits;
+}
 
 /**
- * Check if data is gzip compressed
+ * Resource limits for a read
+ *
+ * Each limit is unset (unlimited) by default. A file that exceeds one fails
+ * with a LimitExceeded error; binary files are checked against their headers
+ * before anything is allocated for the data they describe.
  */
-function isGzipCompressed(data: Uint8Array): boolean {
-  return data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b;
+export interface ReaderLimits {
+  /** Entries in the string table */
+  maxStrings?: number;
+  /** Length of any one string (names and string data), in UTF-16 code units */
+  maxStringLength?: number;
+  maxObjects?: number;
+  /** Properties in the whole file */
+  maxProperties?: number;
+  /** Values (size * width) summed over all properties */
+  maxElements?: number;
+  /** Decompressed size of a compressed file; decompression stops once over it */
+  maxBytes?: number;
 }
 
 /**
- * Decompress gzip data using DecompressionStream (browser/Node.js 18+)
+ * Detect compressed data: gzip, or zlib-wrapped deflate
  */
-async function decompressGzip(data: Uint8Array): Promise<Uint8Array> {
-  // Check if DecompressionStream is available
-  if (typeof DecompressionStream !== 'undefined') {
-    const stream = new DecompressionStream('gzip');
-    const writer = stream.writable.getWriter();
-    // Create a copy with a proper ArrayBuffer to satisfy TypeScript
-    const copy = new Uint8Array(data.length);
-    copy.set(data);
-    writer.write(copy);
-    writer.close();
-
-    const chunks: Uint8Array[] = [];
-    const reader = stream.readable.getReader();
+function compressionFormat(data: Uint8Array): CompressionFormat | null {
+  if (data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b) {
+    return 'gzip';
+  }
+  return isZlibCompressed(data) ? 'deflate' : null;
+}
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      chunks.push(value);
+/** Kind of GTO content, as identified by detectFormat() */
+export type GTOFormat = 'text' | 'binary-le' | 'binary-be' | CompressionFormat;
+
+/**
+ * Identify GTO content from its first bytes
+ *
+ * Binary files are recognized by the magic number in either byte order and
+ * compressed files by their gzip or zlib header. Text files are UTF-8 and
+ * start with "GTOa", optionally after a byte order mark and whitespace.
+ * Compressed content may hold either a text or a binary file.
+ * @param bytes - The start of the file; 4 bytes are enough except for text
+ *                with leading whitespace
+ * @returns The format, or null if the bytes are not recognized
+ */
+export function detectFormat(bytes: ArrayBuffer | Uint8Array): GTOFormat | null {
+  const data = bytes instanceof ArrayBuffer ? new Uint8Array(bytes) : bytes;
+  if (data.length >= 4) {
+    const view = new DataView(data.buffer, data.byteOffset, 4);
+    if (view.getUint32(0, true) === GTO_MAGIC) {
+      return 'binary-le';
     }
+    if (view.getUint32(0, false) === GTO_MAGIC) {
+      return 'binary-be';
+    }
+  }
 
-    // Concatenate chunks
-    const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-    const result = new Uint8Array(totalLength);
-    let offset = 0;
-    for (const chunk of chunks) {
-      result.set(chunk, offset);
-      offset += chunk.length;
+  let offset = 0;
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) {
+    offset = 3;
+  }
+  while (data[offset] === 0x20 || data[offset] === 0x09 || data[offset] === 0x0a || data[offset] === 0x0d) {
+    offset++;
+  }
+  if (data[offset] === 0x47 && data[offset + 1] === 0x54 && data[offset + 2] === 0x4f && data[offset + 3] === 0x61) {
+    return 'text';
+  }
+
+  return compressionFormat(data);
+}
+
+/**
+ * Decompress data using DecompressionStream (browser/Node.js 18+)
+ */
+async function decompressStream(data: Uint8Array, format: CompressionFormat, maxBytes: number = Infinity): Promise<Uint8Array> {
+  const stream = new DecompressionStream(format);
+  const writer = stream.writable.getWriter();
+  // Create a copy with a proper ArrayBuffer to satisfy TypeScript
+  const copy = new Uint8Array(data.length);
+  copy.set(data);
+  writer.write(copy).catch(() => undefined);
+  writer.close().catch(() => undefined);
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.readable.getReader();
+  let total = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxBytes) {
+      reader.cancel().catch(() => undefined);
+      throw new DecompressedSizeError(maxBytes);
     }
-    return result;
+    chunks.push(value);
+  }
+
+  return concatBytes(chunks);
+}
+
+/**
+ * Concatenate byte chunks
+ */
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * Wrap a decompression failure
+ */
+function compressionError(e: unknown): GTOParseError {
+  if (e instanceof GTOParseError) {
+    return e;
   }
+  if (e instanceof DecompressedSizeError) {
+    return new GTOFormatError(
+      ParseErrorCode.LimitExceeded,
+      `Decompressed data exceeds the maxBytes limit of ${e.maxBytes}`,
+      {},
+      { cause: e }
+    );
+  }
+  return new GTOFormatError(ParseErrorCode.Compression, `Gzip decompression failed: ${(e as Error).message}`, {}, { cause: e });
+}
+
+/** Object header as stored in a binary file */
+interface BinaryObjectHeader {
+  nameId: number;
+  protocolId: number;
+  protocolVersion: number;
+  numComponents: number;
+}
+
+/** Component header as stored in a binary file */
+interface BinaryComponentHeader {
+  nameId: number;
+  interpretationId: number;
+  numProperties: number;
+  flags: number;
+  childLevel: number;
+}
+
+/** Property header as stored in a binary file */
+interface BinaryPropertyHeader {
+  nameId: number;
+  interpretationId: number;
+  type: DataType;
+  size: number;
+  width: number;
+  dims: [number, number, number, number];
+}
+
+/** Header tables of a binary file, and where its property data starts */
+interface BinaryLayout {
+  littleEndian: boolean;
+  flags: number;         // Header flags
+  objects: BinaryObjectHeader[];
+  components: BinaryComponentHeader[];
+  properties: BinaryPropertyHeader[];
+  dataOffset: number;
+}
 
-  throw new Error('Gzip decompression not available. DecompressionStream API required.');
+/** A property reached while walking a binary file, and where its data lives */
+interface BinaryPropertyStep {
+  info: PropertyInfo;
+  request: Request;
+  offset: number;        // Absolute offset of the data (its first element if transposed)
+  count: number;         // Number of values
+  bytes: number;         // Data size in bytes
+  stride: number;        // Bytes from one element to the next if transposed, else 0
+  end: number;           // Where the data (or the whole transposed block) ends
+  release: number;       // Data before this offset is not needed by later properties
 }
 
 /**
- * Synchronous gzip decompression using pako-like inflate
- * This is a fallback for environments without DecompressionStream
+ * Size of everything before the property data of a binary file, found as
+ * the header arrives
+ * Each call resumes where the last one stopped, so a header buffered chunk
+ * by chunk is scanned once. Calls must pass the same bytes, grown.
  */
-function decompressGzipSync(data: Uint8Array): Uint8Array {
-  // For synchronous decompression, we need a library like pako
-  // Since we don't have dependencies, throw an error with instructions
-  throw new Error(
-    'Synchronous gzip decompression not available. ' +
-    'Use async reader.openAsync() or provide uncompressed data.'
-  );
+class BinaryHeaderScan {
+  /** End of the strings found so far */
+  private _offset: number = 20;
+  private _strings: number = 0;
+  private _components: number = -1;
+  private _properties: number = -1;
+
+  /**
+   * @returns The exact size once all header tables are in `view`; otherwise
+   *          a lower bound larger than `view.byteLength`
+   */
+  size(view: DataView): number {
+    if (view.byteLength < 20) {
+      return 20;
+    }
+    const littleEndian = view.getUint32(0, true) === GTO_MAGIC || view.getUint32(0, false) !== GTO_MAGIC;
+    const numStrings = view.getUint32(4, littleEndian);
+    const numObjects = view.getUint32(8, littleEndian);
+    const version = view.getUint32(12, littleEndian);
+    const length = view.byteLength;
+
+    // Null-terminated strings
+    while (this._strings < numStrings) {
+      while (this._offset < length && view.getUint8(this._offset) !== 0) {
+        this._offset++;
+      }
+      if (this._offset >= length) {
+        return length + (numStrings - this._strings) + numObjects * 20;
+      }
+      this._offset++;
+      this._strings++;
+    }
+
+    const objectsEnd = this._offset + numObjects * 20;
+    if (objectsEnd > length) {
+      return objectsEnd;
+    }
+    if (this._components < 0) {
+      this._components = 0;
+      for (let i = 0; i < numObjects; i++) {
+        this._components += view.getUint32(this._offset + i * 20 + 12, littleEndian);
+      }
+    }
+
+    const componentSize = version >= 4 ? 20 : 16;
+    const componentsEnd = objectsEnd + this._components * componentSize;
+    if (componentsEnd > length) {
+      return componentsEnd;
+    }
+    if (this._properties < 0) {
+      this._properties = 0;
+      for (let i = 0; i < this._components; i++) {
+        this._properties += view.getUint32(objectsEnd + i * componentSize + 8, littleEndian);
+      }
+    }
+
+    return componentsEnd + this._properties * (version >= 4 ? 36 : 20);
+  }
+}
+
+/** State of an incremental read, see Reader.beginStream() */
+interface StreamState {
+  /** Compressed input is passed through here when the stream is gzipped */
+  gunzip: {
+    format: CompressionFormat;
+    /** Built-in decompressor, or null to buffer for the `decompress` option */
+    decompressor: IncrementalDecompressor | null;
+    chunks: Uint8Array[];
+  } | null;
+  /** Format of the (decompressed) content, once enough bytes arrived to tell */
+  format: 'detect' | 'text' | 'binary';
+  /** Raw bytes received so far */
+  bytesRead: number;
+  /** Binary input, and the first bytes of any input until the format is known */
+  bytes: ByteQueue;
+  headerScan: BinaryHeaderScan;
+  decoder: TextDecoder;
+  text: TextSplitter;
+  headerRead: boolean;
+  layout: BinaryLayout | null;
+  walk: Generator<BinaryPropertyStep> | null;
+  step: BinaryPropertyStep | null;
+  /** Nothing more to parse (HeaderOnly, or all data read); input is ignored */
+  done: boolean;
+  failed: boolean;
 }
 
 /**
@@ -100,129 +389,246 @@ enum TokenType {
   COLON = 'COLON',           // :
   EQUALS = 'EQUALS',         // =
   COMMA = 'COMMA',           // ,
-  AS = 'AS'                  // 'as' keyword
+  AS = 'AS',                 // 'as' keyword
+  INVALID = 'INVALID'        // Unscannable input, see Lexer.error
 }
 
 interface Token {
   type: TokenType;
-  value: string | number | null;
+  value: string | number | bigint | null;   // bigint for integers beyond 2^53
+}
+
+// Character codes the lexer dispatches on
+const TAB = 0x09;
+const NEWLINE = 0x0a;
+const RETURN = 0x0d;
+const SPACE = 0x20;
+const DOUBLE_QUOTE = 0x22;
+const HASH = 0x23;
+const SINGLE_QUOTE = 0x27;
+const PLUS = 0x2b;
+const MINUS = 0x2d;
+const DOT = 0x2e;
+const ZERO = 0x30;
+const NINE = 0x39;
+const UPPER_E = 0x45;
+const BACKSLASH = 0x5c;
+const LOWER_E = 0x65;
+
+// Character classes of ASCII codes
+const IDENTIFIER_START = 1;
+const IDENTIFIER_PART = 2;
+const CHAR_CLASS = new Uint8Array(128);
+for (let c = 0; c < 128; c++) {
+  const ch = String.fromCharCode(c);
+  if (/[a-zA-Z_]/.test(ch)) {
+    CHAR_CLASS[c] = IDENTIFIER_START | IDENTIFIER_PART;
+  } else if (/[0-9.-]/.test(ch)) {
+    CHAR_CLASS[c] = IDENTIFIER_PART;
+  }
 }
 
+// Single character tokens carry no position, so they are shared
+const PUNCTUATION: Record<string, Token> = {
+  '{': { type: TokenType.LBRACE, value: '{' },
+  '}': { type: TokenType.RBRACE, value: '}' },
+  '[': { type: TokenType.LBRACKET, value: '[' },
+  ']': { type: TokenType.RBRACKET, value: ']' },
+  '(': { type: TokenType.LPAREN, value: '(' },
+  ')': { type: TokenType.RPAREN, value: ')' },
+  ':': { type: TokenType.COLON, value: ':' },
+  '=': { type: TokenType.EQUALS, value: '=' },
+  ',': { type: TokenType.COMMA, value: ',' }
+};
+const EOF_TOKEN: Token = { type: TokenType.EOF, value: null };
+
+// Integers of up to 15 digits, and 10^k up to 10^22, are exact as doubles,
+// so dividing one by the other gives a correctly rounded result
+const MAX_FAST_DIGITS = 15;
+const POWERS_OF_TEN = Array.from({ length: 23 }, (_, k) => 10 ** k);
+
 /**
- * Simple lexer for GTO text format
+ * Lexer for GTO text format
+ *
+ * Scans the input by index and slices tokens out of it. Line and column are
+ * only worked out when asked for (for an error or diagnostic), by counting
+ * newlines from the last location asked for.
  */
 class Lexer {
   private input: string;
   private pos: number = 0;
-  line: number = 1;
-  column: number = 1;
-
-  constructor(input: string) {
+  // Offset of the most recently scanned token
+  private tokenStart: number = 0;
+  // Location of the start of the input
+  private startLine: number;
+  private startColumn: number;
+  // Last located offset, its line, and the offset its line starts at
+  private cursor: number = 0;
+  private cursorLine: number;
+  private cursorLineStart: number;
+  // Why the most recent INVALID token could not be scanned
+  error: GTOSyntaxError | null = null;
+
+  constructor(input: string, line: number = 1, column: number = 1) {
     this.input = input;
+    this.startLine = line;
+    this.startColumn = column;
+    this.cursorLine = line;
+    this.cursorLineStart = 1 - column;
   }
 
-  peek(): string {
-    return this.input[this.pos] || '';
+  /** Line of the most recently scanned token */
+  get tokenLine(): number {
+    this.locate(this.tokenStart);
+    return this.cursorLine;
   }
 
-  advance(): string {
-    const ch = this.input[this.pos++] || '';
-    if (ch === '\n') {
-      this.line++;
-      this.column = 1;
-    } else {
-      this.column++;
-    }
-    return ch;
+  /** Column of the most recently scanned token */
+  get tokenColumn(): number {
+    this.locate(this.tokenStart);
+    return this.tokenStart - this.cursorLineStart + 1;
   }
 
   skipWhitespace(): void {
-    while (this.pos < this.input.length) {
-      const ch = this.peek();
-      if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r') {
-        this.advance();
-      } else if (ch === '#') {
+    const input = this.input;
+    const length = input.length;
+    let pos = this.pos;
+    while (pos < length) {
+      const c = input.charCodeAt(pos);
+      if (c === SPACE || c === NEWLINE || c === TAB || c === RETURN) {
+        pos++;
+      } else if (c === HASH) {
         // Skip comment until end of line
-        while (this.pos < this.input.length && this.peek() !== '\n') {
-          this.advance();
-        }
+        const end = input.indexOf('\n', pos);
+        pos = end === -1 ? length : end;
       } else {
         break;
       }
     }
+    this.pos = pos;
   }
 
   readString(): Token {
-    const quote = this.advance(); // consume opening quote
+    const input = this.input;
+    const length = input.length;
+    const quote = input.charCodeAt(this.pos);
+    let pos = this.pos + 1;
+    // Text since the last escape is sliced in one piece
+    let chunkStart = pos;
     let str = '';
-    while (this.pos < this.input.length) {
-      const ch = this.advance();
-      if (ch === quote) {
-        break;
-      } else if (ch === '\\') {
-        const next = this.advance();
-        switch (next) {
-          case 'n': str += '\n'; break;
-          case 't': str += '\t'; break;
-          case 'r': str += '\r'; break;
-          case '\\': str += '\\'; break;
-          case '"': str += '"'; break;
-          case "'": str += "'"; break;
-          default: str += next;
+    let badEscape: string | null = null;
+    while (pos < length) {
+      const c = input.charCodeAt(pos);
+      if (c === quote) {
+        str += input.slice(chunkStart, pos);
+        this.pos = pos + 1;
+        if (badEscape !== null) {
+          return this.invalid(ParseErrorCode.UnexpectedCharacter, `Invalid unicode escape '${badEscape}'`, str);
         }
-      } else {
-        str += ch;
+        return { type: TokenType.STRING, value: str };
+      }
+      if (c !== BACKSLASH) {
+        pos++;
+        continue;
+      }
+      str += input.slice(chunkStart, pos);
+      const next = input.charAt(pos + 1);
+      pos += 2;
+      switch (next) {
+        case 'n': str += '\n'; break;
+        case 't': str += '\t'; break;
+        case 'r': str += '\r'; break;
+        case 'u': {
+          // \uXXXX: one UTF-16 code unit (pairs of them for surrogates)
+          const hex = input.slice(pos, pos + 4);
+          if (/^[0-9a-fA-F]{4}$/.test(hex)) {
+            str += String.fromCharCode(parseInt(hex, 16));
+            pos += 4;
+          } else {
+            badEscape ??= `\\u${hex.split(String.fromCharCode(quote))[0]}`;
+          }
+          break;
+        }
+        default: str += next;
       }
+      chunkStart = pos;
     }
-    return { type: TokenType.STRING, value: str };
+    str += input.slice(chunkStart, length);
+    this.pos = length;
+    return this.invalid(ParseErrorCode.UnexpectedEOF, 'Unterminated string literal', str);
   }
 
   readNumber(): Token {
-    let str = '';
-    let hasDecimal = false;
-    let hasExponent = false;
-
-    // Handle leading minus
-    if (this.peek() === '-') {
-      str += this.advance();
-    }
-
-    while (this.pos < this.input.length) {
-      const ch = this.peek();
-      if (ch >= '0' && ch <= '9') {
-        str += this.advance();
-      } else if (ch === '.' && !hasDecimal && !hasExponent) {
-        hasDecimal = true;
-        str += this.advance();
-      } else if ((ch === 'e' || ch === 'E') && !hasExponent) {
-        hasExponent = true;
-        str += this.advance();
-        if (this.peek() === '+' || this.peek() === '-') {
-          str += this.advance();
-        }
-      } else {
-        break;
+    const input = this.input;
+    const start = this.pos;
+    let pos = start;
+    const negative = input.charCodeAt(pos) === MINUS;
+    if (negative) {
+      pos++;
+    }
+
+    // Fast path: accumulate the digits of short integers and decimals
+    let mantissa = 0;
+    let digits = 0;
+    let c = input.charCodeAt(pos);
+    while (c >= ZERO && c <= NINE) {
+      mantissa = mantissa * 10 + (c - ZERO);
+      digits++;
+      c = input.charCodeAt(++pos);
+    }
+    let fraction = -1;
+    if (c === DOT) {
+      fraction = 0;
+      c = input.charCodeAt(++pos);
+      while (c >= ZERO && c <= NINE) {
+        mantissa = mantissa * 10 + (c - ZERO);
+        fraction++;
+        c = input.charCodeAt(++pos);
       }
     }
+    if (c !== LOWER_E && c !== UPPER_E && digits + Math.max(fraction, 0) <= MAX_FAST_DIGITS) {
+      this.pos = pos;
+      const value = fraction > 0 ? mantissa / POWERS_OF_TEN[fraction] : mantissa;
+      return { type: TokenType.NUMBER, value: negative ? -value : value };
+    }
 
-    const value = hasDecimal || hasExponent ? parseFloat(str) : parseInt(str, 10);
-    return { type: TokenType.NUMBER, value };
+    // Long numbers and exponents: find the end, then parse the text
+    const exponent = c === LOWER_E || c === UPPER_E;
+    if (exponent) {
+      c = input.charCodeAt(++pos);
+      if (c === PLUS || c === MINUS) {
+        c = input.charCodeAt(++pos);
+      }
+      while (c >= ZERO && c <= NINE) {
+        c = input.charCodeAt(++pos);
+      }
+    }
+    this.pos = pos;
+    const str = input.slice(start, pos);
+    if (fraction >= 0 || exponent) {
+      return { type: TokenType.NUMBER, value: parseFloat(str) };
+    }
+    // Keep integers a number can't hold exactly for int64 properties
+    const value = parseInt(str, 10);
+    return { type: TokenType.NUMBER, value: Number.isSafeInteger(value) ? value : BigInt(str) };
   }
 
   readIdentifier(): Token {
-    let str = '';
-    while (this.pos < this.input.length) {
-      const ch = this.peek();
-      if ((ch >= 'a' && ch <= 'z') ||
-          (ch >= 'A' && ch <= 'Z') ||
-          (ch >= '0' && ch <= '9') ||
-          ch === '_' || ch === '-' || ch === '.') {
-        str += this.advance();
+    const input = this.input;
+    const length = input.length;
+    const start = this.pos;
+    let pos = start + 1;
+    while (pos < length) {
+      const c = input.charCodeAt(pos);
+      if (c < 128 && (CHAR_CLASS[c] & IDENTIFIER_PART) !== 0) {
+        pos++;
       } else {
         break;
       }
     }
+    this.pos = pos;
 
+    const str = input.slice(start, pos);
     if (str === 'as') {
       return { type: TokenType.AS, value: str };
     }
@@ -231,43 +637,75 @@ class Lexer {
 
   nextToken(): Token {
     this.skipWhitespace();
+    const pos = this.tokenStart = this.pos;
 
-    if (this.pos >= this.input.length) {
-      return { type: TokenType.EOF, value: null };
+    if (pos >= this.input.length) {
+      return EOF_TOKEN;
     }
 
-    const ch = this.peek();
+    const c = this.input.charCodeAt(pos);
 
-    // String literals
-    if (ch === '"' || ch === "'") {
-      return this.readString();
+    // Identifiers
+    if (c < 128 && (CHAR_CLASS[c] & IDENTIFIER_START) !== 0) {
+      return this.readIdentifier();
     }
 
     // Numbers (including negative)
-    if ((ch >= '0' && ch <= '9') || (ch === '-' && this.input[this.pos + 1] >= '0' && this.input[this.pos + 1] <= '9')) {
-      return this.readNumber();
+    if ((c >= ZERO && c <= NINE) || c === MINUS) {
+      const next = this.input.charCodeAt(pos + 1);
+      if (c !== MINUS || (next >= ZERO && next <= NINE)) {
+        return this.readNumber();
+      }
     }
 
-    // Identifiers
-    if ((ch >= 'a' && ch <= 'z') || (ch >= 'A' && ch <= 'Z') || ch === '_') {
-      return this.readIdentifier();
+    // String literals
+    if (c === DOUBLE_QUOTE || c === SINGLE_QUOTE) {
+      return this.readString();
     }
 
     // Single character tokens
-    this.advance();
-    switch (ch) {
-      case '{': return { type: TokenType.LBRACE, value: ch };
-      case '}': return { type: TokenType.RBRACE, value: ch };
-      case '[': return { type: TokenType.LBRACKET, value: ch };
-      case ']': return { type: TokenType.RBRACKET, value: ch };
-      case '(': return { type: TokenType.LPAREN, value: ch };
-      case ')': return { type: TokenType.RPAREN, value: ch };
-      case ':': return { type: TokenType.COLON, value: ch };
-      case '=': return { type: TokenType.EQUALS, value: ch };
-      case ',': return { type: TokenType.COMMA, value: ch };
-      default:
-        throw new Error(`Unexpected character '${ch}' at line ${this.line}, column ${this.column}`);
+    const ch = this.input[pos];
+    this.pos++;
+    return PUNCTUATION[ch] ??
+      this.invalid(ParseErrorCode.UnexpectedCharacter, `Unexpected character '${ch}'`, ch);
+  }
+
+  /**
+   * Scan the token after the current one without consuming it
+   */
+  peekToken(): Token {
+    const { pos, tokenStart, error } = this;
+    const token = this.nextToken();
+    this.pos = pos;
+    this.tokenStart = tokenStart;
+    this.error = error;
+    return token;
+  }
+
+  /**
+   * Move the location cursor to an offset, counting the newlines in between
+   */
+  private locate(offset: number): void {
+    if (offset < this.cursor) {
+      this.cursor = 0;
+      this.cursorLine = this.startLine;
+      this.cursorLineStart = 1 - this.startColumn;
+    }
+    let newline = this.input.indexOf('\n', this.cursor);
+    while (newline !== -1 && newline < offset) {
+      this.cursorLine++;
+      this.cursorLineStart = newline + 1;
+      newline = this.input.indexOf('\n', newline + 1);
     }
+    this.cursor = offset;
+  }
+
+  /**
+   * Produce an INVALID token, keeping the reason in `error`
+   */
+  private invalid(code: ParseErrorCode, reason: string, value: string): Token {
+    this.error = new GTOSyntaxError(code, reason, { line: this.tokenLine, column: this.tokenColumn });
+    return { type: TokenType.INVALID, value };
   }
 }
 
@@ -279,6 +717,7 @@ class Lexer {
  */
 export class Reader {
   protected _mode: ReaderMode;
+  protected _options: ReaderOptions;
   protected _stringTable: StringTable = new StringTable();
   protected _header: Header = new Header();
   protected _objects: ObjectInfo[] = [];
@@ -287,13 +726,27 @@ export class Reader {
   private _filename: string = '<string>';
   private _lexer!: Lexer;
   private _currentToken!: Token;
+  private _error: GTOParseError | null = null;
+  private _diagnostics: ParseDiagnostic[] = [];
+  // Names of the object/component/property being parsed, for error reports
+  private _context: ParseErrorLocation = {};
+  // Random access storage
+  private _binaryView: DataView | null = null;
+  private _littleEndian: boolean = true;
+  private _textData: Map<PropertyInfo, PropertyValues> = new Map();
+  // Values parsed so far from a text file, for the maxElements limit
+  private _elementCount: number = 0;
+  // Incremental read in progress (beginStream/write/end)
+  private _stream: StreamState | null = null;
 
   /**
    * Create a new Reader
    * @param mode - Reader mode flags (ReaderMode.*)
+   * @param options - Reader options
    */
-  constructor(mode: ReaderMode = ReaderMode.None) {
+  constructor(mode: ReaderMode = ReaderMode.None, options: ReaderOptions = {}) {
     this._mode = mode;
+    this._options = options;
   }
 
   /**
@@ -310,6 +763,27 @@ export class Reader {
     return this._stringTable.strings;
   }
 
+  /**
+   * Header of the file read last (version, flags and byte order)
+   */
+  get fileHeader(): Header {
+    return this._header;
+  }
+
+  /**
+   * Error from the last failed open()/openAsync(), or null
+   */
+  get error(): GTOParseError | null {
+    return this._error;
+  }
+
+  /**
+   * Warnings from the last open(), plus the errors recovered from in lenient mode
+   */
+  get diagnostics(): ParseDiagnostic[] {
+    return this._diagnostics;
+  }
+
   /**
    * Get all objects (for RandomAccess mode)
    */
@@ -332,62 +806,62 @@ export class Reader {
   }
 
   /**
-   * Open and parse a GTO file (text or binary)
-   * Note: For gzip-compressed files, use openAsync() instead
+   * Open and parse a GTO file (text, binary, or gzip/deflate-compressed)
+   * Compressed files are inflated synchronously with the `decompress` option
+   * or the built-in inflater.
    * @param content - File content
    * @param name - Optional filename for error messages
-   * @returns True if successful
+   * @returns True if successful; on failure the details are in `error`
+   * @throws GTOParseError on failure when the throwOnError option is set
    */
   open(content: string | ArrayBuffer | Uint8Array, name: string = '<string>'): boolean {
     this._filename = name;
-    this._stringTable.clear();
-    this._objects = [];
-    this._components = [];
-    this._properties = [];
+    this._reset();
 
     try {
       // Detect format from content type
       if (content instanceof ArrayBuffer || content instanceof Uint8Array) {
-        const uint8 = content instanceof ArrayBuffer
+        let uint8 = content instanceof ArrayBuffer
           ? new Uint8Array(content)
           : content;
 
-        // Check for gzip compression
-        if (isGzipCompressed(uint8)) {
-          throw new Error(
-            'Gzip-compressed GTO file detected. Use openAsync() for compressed files.'
-          );
+        // Check for compression and decompress if needed
+        const format = compressionFormat(uint8);
+        if (format) {
+          uint8 = this._decompress(uint8, format);
         }
 
-        this._parseBinary(content);
+        this._parseBytes(uint8);
       } else if (typeof content === 'string') {
         if (content.trimStart().startsWith('GTOa')) {
           this._parse(content);
         } else {
-          throw new Error('Unknown GTO format - text files must start with "GTOa"');
+          throw new GTOFormatError(
+            ParseErrorCode.UnknownFormat,
+            'Unknown GTO format - text files must start with "GTOa"'
+          );
         }
       } else {
-        throw new Error('Content must be string, ArrayBuffer, or Uint8Array');
+        throw new GTOFormatError(ParseErrorCode.UnknownFormat, 'Content must be string, ArrayBuffer, or Uint8Array');
       }
       return true;
     } catch (e) {
-      console.error(`Error parsing GTO file ${name}: ${(e as Error).message}`);
-      return false;
+      return this._fail(e);
     }
   }
 
   /**
-   * Open and parse a GTO file asynchronously (supports gzip-compressed files)
+   * Open and parse a GTO file asynchronously
+   * Compressed files are inflated with DecompressionStream where available,
+   * unless the `decompress` option is set.
    * @param content - File content
    * @param name - Optional filename for error messages
-   * @returns Promise resolving to true if successful
+   * @returns Promise resolving to true if successful; on failure the details are in `error`
+   * @throws GTOParseError on failure when the throwOnError option is set
    */
   async openAsync(content: string | ArrayBuffer | Uint8Array, name: string = '<string>'): Promise<boolean> {
     this._filename = name;
-    this._stringTable.clear();
-    this._objects = [];
-    this._components = [];
-    this._properties = [];
+    this._reset();
 
     try {
       // Detect format from content type
@@ -396,59 +870,714 @@ export class Reader {
           ? new Uint8Array(content)
           : content;
 
-        // Check for gzip compression and decompress if needed
-        if (isGzipCompressed(uint8)) {
-          uint8 = await decompressGzip(uint8);
+        // Check for compression and decompress if needed
+        const format = compressionFormat(uint8);
+        if (format) {
+          if (this._options.decompress || typeof DecompressionStream === 'undefined') {
+            uint8 = this._decompress(uint8, format);
+          } else {
+            try {
+              uint8 = await decompressStream(uint8, format, this._options.limits?.maxBytes);
+            } catch (e) {
+              throw compressionError(e);
+            }
+          }
         }
 
-        this._parseBinary(uint8);
+        this._parseBytes(uint8);
       } else if (typeof content === 'string') {
         if (content.trimStart().startsWith('GTOa')) {
           this._parse(content);
         } else {
-          throw new Error('Unknown GTO format - text files must start with "GTOa"');
+          throw new GTOFormatError(
+            ParseErrorCode.UnknownFormat,
+            'Unknown GTO format - text files must start with "GTOa"'
+          );
         }
       } else {
-        throw new Error('Content must be string, ArrayBuffer, or Uint8Array');
+        throw new GTOFormatError(ParseErrorCode.UnknownFormat, 'Content must be string, ArrayBuffer, or Uint8Array');
       }
       return true;
     } catch (e) {
-      console.error(`Error parsing GTO file ${name}: ${(e as Error).message}`);
+      return this._fail(e);
+    }
+  }
+
+  /**
+   * Start an incremental read
+   *
+   * Feed the file with write() as chunks arrive and finish with end(). Text,
+   * binary and gzip-compressed input are detected from the first bytes, and
+   * the callbacks fire as soon as the data they report has arrived: binary
+   * files property by property, text files one top-level object at a time.
+   * Only the part of the file not yet parsed is kept in memory. Compressed
+   * input is inflated as it arrives, except with the `decompress` option,
+   * which is given the whole file at end().
+   * @param name - Optional filename for error messages
+   */
+  beginStream(name: string = '<stream>'): void {
+    if (this._mode & ReaderMode.RandomAccess) {
+      throw new Error('Streaming reads do not support ReaderMode.RandomAccess');
+    }
+    this._filename = name;
+    this._reset();
+    this._stream = {
+      gunzip: null,
+      format: 'detect',
+      bytesRead: 0,
+      bytes: new ByteQueue(),
+      headerScan: new BinaryHeaderScan(),
+      decoder: new TextDecoder(),
+      text: new TextSplitter(),
+      headerRead: false,
+      layout: null,
+      walk: null,
+      step: null,
+      done: false,
+      failed: false
+    };
+  }
+
+  /**
+   * Feed the next chunk of an incremental read
+   * Starts a read with beginStream() if none is in progress. Chunks must not
+   * be modified after they are written.
+   * @param chunk - File bytes, or text for .rv files
+   * @returns Promise resolving once the chunk has been parsed; after a failure
+   *          further chunks are ignored and end() returns false
+   * @throws GTOParseError on failure when the throwOnError option is set
+   */
+  async write(chunk: string | ArrayBuffer | Uint8Array): Promise<void> {
+    if (!this._stream) {
+      this.beginStream();
+    }
+    const stream = this._stream!;
+    if (stream.failed) {
+      return;
+    }
+
+    const bytes = typeof chunk === 'string'
+      ? new TextEncoder().encode(chunk)
+      : chunk instanceof ArrayBuffer ? new Uint8Array(chunk) : chunk;
+    stream.bytesRead += bytes.length;
+
+    try {
+      if (stream.gunzip) {
+        this._writeGzip(stream, bytes);
+        return;
+      }
+      if (stream.format === 'detect') {
+        // Check for compression once two bytes have arrived
+        stream.bytes.push(bytes);
+        if (stream.bytes.available < 2) {
+          return;
+        }
+        const format = compressionFormat(stream.bytes.peek(2));
+        if (format) {
+          this._startGzip(stream, format);
+          // The queue now holds decompressed bytes, starting from offset 0
+          const compressed = stream.bytes.peek(stream.bytes.available);
+          stream.bytes = new ByteQueue();
+          this._writeGzip(stream, compressed);
+          return;
+        }
+        // Not compressed - the bytes are already buffered for format detection
+        this._feed(stream, new Uint8Array(0));
+        return;
+      }
+      this._feed(stream, bytes);
+    } catch (e) {
+      stream.failed = true;
+      this._fail(e);
+    }
+  }
+
+  /**
+   * Finish an incremental read
+   * @returns Promise resolving to true if successful; on failure the details are in `error`
+   * @throws GTOParseError on failure when the throwOnError option is set
+   */
+  async end(): Promise<boolean> {
+    const stream = this._stream;
+    if (!stream) {
+      throw new Error('end() called without beginStream()');
+    }
+    if (stream.failed) {
+      this._stream = null;
       return false;
     }
+
+    try {
+      const gunzip = stream.gunzip;
+      if (gunzip?.decompressor) {
+        try {
+          gunzip.decompressor.end();
+        } catch (e) {
+          throw compressionError(e);
+        }
+      } else if (gunzip) {
+        this._feed(stream, this._decompress(concatBytes(gunzip.chunks), gunzip.format));
+      }
+      this._finish(stream);
+      return true;
+    } catch (e) {
+      return this._fail(e);
+    } finally {
+      this._stream = null;
+    }
+  }
+
+  /**
+   * Read a GTO file incrementally from a stream
+   * @param source - A ReadableStream (e.g. a fetch() body) or any async
+   *                 iterable of chunks (e.g. a Node.js fs.ReadStream)
+   * @param name - Optional filename for error messages
+   * @param onProgress - Called with the number of bytes read after each chunk
+   * @returns Promise resolving to true if successful; on failure the details are in `error`
+   * @throws GTOParseError on failure when the throwOnError option is set
+   */
+  async openStream(
+    source: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>,
+    name: string = '<stream>',
+    onProgress?: (bytesRead: number) => void
+  ): Promise<boolean> {
+    this.beginStream(name);
+    const stream = this._stream!;
+
+    if (source instanceof ReadableStream) {
+      const reader = source.getReader();
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          await this.write(value);
+          if (stream.failed) {
+            await reader.cancel();
+            break;
+          }
+          onProgress?.(stream.bytesRead);
+        }
+      } finally {
+        reader.releaseLock();
+      }
+    } else {
+      for await (const chunk of source) {
+        await this.write(chunk);
+        if (stream.failed) break;
+        onProgress?.(stream.bytesRead);
+      }
+    }
+
+    return this.end();
+  }
+
+  /**
+   * Number of bytes fed to the incremental read in progress
+   */
+  get bytesRead(): number {
+    return this._stream?.bytesRead ?? 0;
+  }
+
+  /**
+   * Start decompressing the input, chunk by chunk with the built-in
+   * decompressor
+   * With the `decompress` option, compressed input is buffered and
+   * decompressed at end() instead.
+   */
+  private _startGzip(stream: StreamState, format: CompressionFormat): void {
+    stream.gunzip = {
+      format,
+      decompressor: this._options.decompress ? null : new IncrementalDecompressor(format, this._options.limits?.maxBytes),
+      chunks: []
+    };
+  }
+
+  /**
+   * Decompress a whole compressed file, with the `decompress` option if set
+   */
+  private _decompress(data: Uint8Array, format: CompressionFormat): Uint8Array {
+    const maxBytes = this._options.limits?.maxBytes;
+    try {
+      const result = (this._options.decompress ?? decompress)(data, format, maxBytes);
+      // A custom decompressor may not honour the limit
+      if (maxBytes !== undefined && result.length > maxBytes) {
+        throw new DecompressedSizeError(maxBytes);
+      }
+      return result;
+    } catch (e) {
+      throw compressionError(e);
+    }
+  }
+
+  /**
+   * Decompress compressed bytes and parse the output
+   * Only errors from the decompressor are reported as compression errors.
+   */
+  private _writeGzip(stream: StreamState, bytes: Uint8Array): void {
+    const gunzip = stream.gunzip!;
+    if (!gunzip.decompressor) {
+      gunzip.chunks.push(bytes);
+      return;
+    }
+    let output: Uint8Array;
+    try {
+      output = gunzip.decompressor.push(bytes);
+    } catch (e) {
+      throw compressionError(e);
+    }
+    this._feed(stream, output);
+  }
+
+  /**
+   * Parse newly arrived (decompressed) bytes as far as possible
+   */
+  private _feed(stream: StreamState, bytes: Uint8Array): void {
+    if (stream.done) {
+      return;
+    }
+
+    if (stream.format === 'detect') {
+      stream.bytes.push(bytes);
+      if (stream.bytes.available < 4) {
+        return;
+      }
+      const format = detectFormat(stream.bytes.peek(4));
+      if (format === 'binary-le' || format === 'binary-be') {
+        stream.format = 'binary';
+        this._feedBinary(stream);
+      } else {
+        stream.format = 'text';
+        const buffered = stream.bytes.peek(stream.bytes.available);
+        stream.bytes.clear();
+        this._feedText(stream, buffered);
+      }
+    } else if (stream.format === 'binary') {
+      stream.bytes.push(bytes);
+      this._feedBinary(stream);
+    } else {
+      this._feedText(stream, bytes);
+    }
+  }
+
+  /**
+   * Parse text input one complete top-level block at a time
+   */
+  private _feedText(stream: StreamState, bytes: Uint8Array): void {
+    stream.text.push(stream.decoder.decode(bytes, { stream: true }));
+
+    if (!stream.headerRead) {
+      const header = stream.text.header();
+      if (!header) {
+        return;
+      }
+      this._parseTextHeader(stream, header);
+      if (stream.done) {
+        return;
+      }
+    }
+
+    for (let block = stream.text.block(); block; block = stream.text.block()) {
+      this._startLexer(block.text, block.line, block.column);
+      this._parseObjects();
+    }
+  }
+
+  /**
+   * Parse the "GTOa (version)" header of streamed text
+   */
+  private _parseTextHeader(stream: StreamState, header: TextSegment): void {
+    if (!header.text.trimStart().startsWith('GTOa')) {
+      throw new GTOFormatError(
+        ParseErrorCode.UnknownFormat,
+        'Unknown GTO format - text files must start with "GTOa"'
+      );
+    }
+    this._startLexer(header.text, header.line, header.column);
+    this._parseHeader();
+    this._expect(TokenType.EOF);
+    stream.headerRead = true;
+
+    this.header(this._header);
+    if (this._mode & ReaderMode.HeaderOnly) {
+      stream.done = true;
+    }
+  }
+
+  /**
+   * Parse binary input: the header tables once they have all arrived, then
+   * each property as soon as its data is complete
+   */
+  private _feedBinary(stream: StreamState): void {
+    const queue = stream.bytes;
+
+    if (!stream.layout) {
+      const head = queue.peek(queue.available);
+      const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+      const size = this._mode & ReaderMode.HeaderOnly ? 20 : stream.headerScan.size(view);
+      if (size > view.byteLength) {
+        // Fail early rather than buffer tables the limits rule out
+        if (view.byteLength >= 20) {
+          this._checkHeaderLimits(view);
+        }
+        return;
+      }
+
+      const layout = this._readBinaryHeaders(view);
+      if (!layout) {
+        stream.done = true;
+        queue.clear();
+        return;
+      }
+      queue.discard(size);
+      stream.layout = layout;
+      stream.walk = this._walkBinary(layout);
+    }
+
+    while (true) {
+      if (!stream.step) {
+        const next = stream.walk!.next();
+        if (next.done) {
+          stream.done = true;
+          queue.clear();
+          return;
+        }
+        stream.step = next.value;
+      }
+
+      const step = stream.step;
+      if (step.request === Request.Read && step.count > 0) {
+        if (queue.start + queue.available < step.end) {
+          return;
+        }
+        const data = queue.peek(step.end - queue.start);
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        this._readBinaryProperty(view, step.offset - queue.start, step, stream.layout.littleEndian);
+      }
+
+      // Drop data no later property needs, as it arrives
+      queue.discard(Math.max(0, Math.min(queue.available, step.release - queue.start)));
+      if (queue.start < step.release) {
+        return;
+      }
+      stream.step = null;
+    }
+  }
+
+  /**
+   * Parse whatever is left at the end of the input, reporting truncation
+   */
+  private _finish(stream: StreamState): void {
+    if (stream.done) {
+      return;
+    }
+
+    if (stream.format === 'binary') {
+      if (!stream.layout) {
+        // Header tables incomplete - parsing what arrived reports where
+        const head = stream.bytes.peek(stream.bytes.available);
+        this._readBinaryHeaders(new DataView(head.buffer, head.byteOffset, head.byteLength));
+      }
+      const step = stream.step!;
+      const available = stream.bytes.start + stream.bytes.available - step.offset;
+      throw new GTOBinaryError(
+        ParseErrorCode.Truncated,
+        `Unexpected end of file reading property data (need ${step.end - step.offset} bytes, ${Math.max(0, available)} available)`,
+        { offset: step.offset }
+      );
+    }
+
+    // Text (or too short to tell - parse it as text to report the problem)
+    if (stream.format === 'detect') {
+      const buffered = stream.bytes.peek(stream.bytes.available);
+      stream.bytes.clear();
+      stream.format = 'text';
+      stream.text.push(stream.decoder.decode(buffered, { stream: true }));
+    }
+    stream.text.push(stream.decoder.decode());
+    this._feedText(stream, new Uint8Array(0));
+
+    const rest = stream.text.rest();
+    if (!stream.headerRead) {
+      this._parseTextHeader(stream, rest);
+      return;
+    }
+    this._startLexer(rest.text, rest.line, rest.column);
+    this._parseObjects();
+  }
+
+  /**
+   * Clear all state left over from a previous open
+   */
+  private _reset(): void {
+    this._error = null;
+    this._diagnostics = [];
+    this._context = {};
+    this._header = new Header();
+    this._stringTable.clear();
+    this._objects = [];
+    this._components = [];
+    this._properties = [];
+    this._binaryView = null;
+    this._textData.clear();
+    this._elementCount = 0;
+    this._stream = null;
+  }
+
+  /**
+   * Record a failed open: keep the error, then throw or log it
+   * @returns false, for use as the open() result
+   */
+  private _fail(e: unknown): false {
+    const location: ParseErrorLocation = { fileName: this._filename, ...this._context };
+    const error = e instanceof GTOParseError
+      ? e._locate(location)
+      : new GTOParseError(ParseErrorCode.Internal, e instanceof Error ? e.message : String(e), location, { cause: e });
+    this._error = error;
+
+    if (this._options.throwOnError) {
+      throw error;
+    }
+    console.error(`Error parsing GTO file ${error.message}`);
+    return false;
+  }
+
+  /**
+   * Read the data of a single property on demand (RandomAccess mode)
+   *
+   * Binary data is decoded straight from the file buffer using the offset
+   * recorded while reading the property headers; nothing else is decoded.
+   * @param info - Property info from properties() or components()
+   * @returns Property values
+   */
+  readProperty(info: PropertyInfo): PropertyValues {
+    if (!(this._mode & ReaderMode.RandomAccess)) {
+      throw new Error('readProperty() requires ReaderMode.RandomAccess');
+    }
+
+    if (this._binaryView) {
+      const count = info.size * info.width;
+      const elementBytes = info.width * (DataTypeSize[info.type] || 4);
+      const dataBytes = info._dataStride
+        ? (info.size - 1) * info._dataStride + elementBytes
+        : count * (DataTypeSize[info.type] || 4);
+      if (count > 0 && info._dataOffset + dataBytes > this._binaryView.byteLength) {
+        throw new GTOBinaryError(ParseErrorCode.Truncated, 'Property data extends past end of file', {
+          fileName: this._filename,
+          offset: info._dataOffset,
+          property: info.name
+        });
+      }
+      if (info._dataStride) {
+        const gathered = this._gatherTransposed(this._binaryView, info._dataOffset, info, info._dataStride);
+        return this._decodeBinaryData(gathered, 0, info, count, this._littleEndian);
+      }
+      return this._decodeBinaryData(this._binaryView, info._dataOffset, info, count, this._littleEndian);
+    }
+
+    const data = this._textData.get(info);
+    if (!data) {
+      throw new Error(`Property '${info.name}' was not read by this reader`);
+    }
+    return data;
+  }
+
+  /**
+   * Read all data of a single object on demand (RandomAccess mode)
+   *
+   * Runs the object/component/property/data/dataRead callbacks for the
+   * object exactly as a sequential read would, honoring their requests.
+   * @param info - Object info from objects()
+   */
+  accessObject(info: ObjectInfo): void {
+    const objectRequest = this.object(info.name, info.protocol, info.protocolVersion, info);
+    if (objectRequest !== Request.Read) {
+      return;
+    }
+
+    const components = this._components.slice(info._componentOffset, info._componentOffset + info.numComponents);
+    // Request made for the open component at each nesting level
+    const levelRequests: Request[] = [];
+    for (const componentInfo of components) {
+      const level = componentInfo.childLevel;
+      const parentRequest = level === 0 ? Request.Read : levelRequests[level - 1];
+      levelRequests.length = level;
+      levelRequests.push(parentRequest === Request.Read ? this.component(componentInfo.name, componentInfo) : Request.Skip);
+      if (levelRequests[level] !== Request.Read) {
+        continue;
+      }
+
+      const properties = this._properties.slice(
+        componentInfo._propertyOffset,
+        componentInfo._propertyOffset + componentInfo.numProperties
+      );
+      for (const propertyInfo of properties) {
+        if (this.property(propertyInfo.name, propertyInfo.interpretation, propertyInfo) !== Request.Read) {
+          continue;
+        }
+
+        const data = this.readProperty(propertyInfo);
+        const dataBuffer = this.data(propertyInfo, data.length * (DataTypeSize[propertyInfo.type] || 4));
+        if (dataBuffer !== null) {
+          this.dataRead(propertyInfo, data);
+        }
+      }
+    }
+  }
+
+  /**
+   * Parse the GTO text content
+   */
+  private _parse(content: string): void {
+    // A byte order mark may survive when the caller decoded the file
+    this._startLexer(content.charCodeAt(0) === 0xfeff ? content.slice(1) : content);
+
+    // Parse header: GTOa (version)
+    this._parseHeader();
+
+    // Call header callback
+    this.header(this._header);
+
+    if (this._mode & ReaderMode.HeaderOnly) {
+      return;
+    }
+
+    this._parseObjects();
+  }
+
+  /**
+   * Start lexing text that begins at the given line and column of the file
+   */
+  private _startLexer(text: string, line: number = 1, column: number = 1): void {
+    this._lexer = new Lexer(text, line, column);
+    this._currentToken = this._lexer.nextToken();
+    this._checkToken();
+  }
+
+  /**
+   * Parse objects until the end of the lexer input
+   */
+  private _parseObjects(): void {
+    while (this._currentToken.type !== TokenType.EOF) {
+      const counts = this._infoCounts();
+      try {
+        this._parseObject();
+      } catch (e) {
+        this._recover(e, counts);
+        this._syncBlock();
+        // A stray '}' at the top level closes nothing - drop it
+        if (this._currentToken.type === TokenType.RBRACE) {
+          this._skipToken();
+        }
+      }
+    }
   }
 
   /**
-   * Parse the GTO text content
+   * Get current token and advance
    */
-  private _parse(content: string): void {
-    const lexer = new Lexer(content);
-    this._lexer = lexer;
-    this._currentToken = lexer.nextToken();
+  private _advance(): Token {
+    const token = this._currentToken;
+    this._currentToken = this._lexer.nextToken();
+    this._checkToken();
+    return token;
+  }
 
-    // Parse header: GTOa (version)
-    this._parseHeader();
+  /**
+   * Throw the lexer error if the current token could not be scanned
+   */
+  private _checkToken(): void {
+    if (this._currentToken.type === TokenType.INVALID) {
+      throw this._lexer.error!;
+    }
+  }
 
-    // Call header callback
-    this.header(this._header);
+  // ============================================
+  // Error recovery (lenient mode)
+  // ============================================
 
-    if (this._mode & ReaderMode.HeaderOnly) {
-      return;
+  /**
+   * Current lengths of the info tables, to roll back a skipped item
+   */
+  private _infoCounts(): [number, number, number] {
+    return [this._objects.length, this._components.length, this._properties.length];
+  }
+
+  /**
+   * Handle an error inside an object, component or property
+   * Rethrows unless lenient (limit errors always end the read); otherwise
+   * records it and drops the partial infos
+   */
+  private _recover(e: unknown, counts: [number, number, number]): void {
+    if (!this._options.lenient || !(e instanceof GTOSyntaxError) || e.code === ParseErrorCode.LimitExceeded) {
+      throw e;
     }
+    e._locate({ fileName: this._filename, ...this._context });
+    this._diagnostics.push(e.toDiagnostic('error'));
+
+    this._objects.length = counts[0];
+    this._components.length = counts[1];
+    this._properties.length = counts[2];
+  }
+
+  /**
+   * Record a warning at the current token
+   */
+  private _warn(code: ParseErrorCode, reason: string): void {
+    const warning = this._syntaxError(code, reason)._locate({ fileName: this._filename, ...this._context });
+    this._diagnostics.push(warning.toDiagnostic('warning'));
+  }
+
+  /**
+   * Skip a token without raising lexer errors
+   */
+  private _skipToken(): void {
+    this._currentToken = this._lexer.nextToken();
+  }
 
-    // Parse objects
+  /**
+   * Skip the rest of a broken object or component: everything up to and
+   * including the '}' that closes its block. Stops before a '}' that closes
+   * an enclosing block.
+   */
+  private _syncBlock(): void {
+    let depth = 0;
     while (this._currentToken.type !== TokenType.EOF) {
-      this._parseObject();
+      const type = this._currentToken.type;
+      if (type === TokenType.LBRACE) {
+        depth++;
+      } else if (type === TokenType.RBRACE) {
+        if (depth === 0) {
+          return;
+        }
+        if (--depth === 0) {
+          this._skipToken();
+          return;
+        }
+      }
+      this._skipToken();
     }
   }
 
   /**
-   * Get current token and advance
+   * Skip the rest of a broken property: stop at the '}' closing the component
+   * or at a type name or nested component starting a new line
    */
-  private _advance(): Token {
-    const token = this._currentToken;
-    this._currentToken = this._lexer.nextToken();
-    return token;
+  private _syncProperty(): void {
+    let line = this._lexer.tokenLine;
+    if (this._currentToken.type === TokenType.RBRACE) {
+      return;
+    }
+    // Always make progress past the offending token
+    this._skipToken();
+    while ((this._currentToken as Token).type !== TokenType.EOF && (this._currentToken as Token).type !== TokenType.RBRACE) {
+      if (this._currentToken.type === TokenType.IDENTIFIER &&
+          this._lexer.tokenLine > line &&
+          ((this._currentToken.value as string) in TypeNameToDataType || this._atComponent())) {
+        return;
+      }
+      line = this._lexer.tokenLine;
+      this._skipToken();
+    }
   }
 
   /**
@@ -457,20 +1586,44 @@ export class Reader {
   private _expect(type: TokenType): Token {
     const token = this._currentToken;
     if (token.type !== type) {
-      throw new Error(`Expected ${type} but got ${token.type} (${token.value}) at line ${this._lexer.line}`);
+      throw this._syntaxError(
+        token.type === TokenType.EOF ? ParseErrorCode.UnexpectedEOF : ParseErrorCode.UnexpectedToken,
+        `Expected ${type} but got ${token.type} (${token.value})`
+      );
     }
     return this._advance();
   }
 
+  /**
+   * Expect a name: an identifier, or a quoted string for names that are not
+   * valid identifiers
+   */
+  private _expectName(): Token {
+    if (this._currentToken.type === TokenType.STRING) {
+      return this._advance();
+    }
+    return this._expect(TokenType.IDENTIFIER);
+  }
+
+  /**
+   * Create a syntax error located at the current token
+   */
+  private _syntaxError(code: ParseErrorCode, reason: string): GTOSyntaxError {
+    return new GTOSyntaxError(code, reason, {
+      line: this._lexer.tokenLine,
+      column: this._lexer.tokenColumn
+    });
+  }
+
   /**
    * Parse the file header
    */
   private _parseHeader(): void {
     // Expect "GTOa"
-    const gtoToken = this._expect(TokenType.IDENTIFIER);
-    if (gtoToken.value !== 'GTOa') {
-      throw new Error(`Expected 'GTOa' but got '${gtoToken.value}'`);
+    if (this._currentToken.type !== TokenType.IDENTIFIER || this._currentToken.value !== 'GTOa') {
+      throw this._syntaxError(ParseErrorCode.InvalidHeader, `Expected 'GTOa' but got '${this._currentToken.value}'`);
     }
+    this._advance();
 
     // Expect (version)
     this._expect(TokenType.LPAREN);
@@ -480,6 +1633,16 @@ export class Reader {
     this._header.version = version.value as number;
   }
 
+  /**
+   * Add a string from a text file to the string table, within the limits
+   */
+  private _intern(str: string): number {
+    this._checkLimit('maxStringLength', str.length, 'String length');
+    const id = this._stringTable.intern(str);
+    this._checkLimit('maxStrings', this._stringTable.size, 'Number of strings');
+    return id;
+  }
+
   /**
    * Parse an object declaration
    */
@@ -487,18 +1650,19 @@ export class Reader {
     // ObjectName : protocol (version) { ... }
     const objectInfo = new ObjectInfo();
 
-    // Object name
-    const nameToken = this._expect(TokenType.IDENTIFIER);
+    // Object name (identifier or quoted string)
+    const nameToken = this._expectName();
     objectInfo.name = nameToken.value as string;
-    objectInfo._nameId = this._stringTable.intern(objectInfo.name);
+    objectInfo._nameId = this._intern(objectInfo.name);
+    this._context = { object: objectInfo.name };
 
     // Colon
     this._expect(TokenType.COLON);
 
     // Protocol name
-    const protocolToken = this._expect(TokenType.IDENTIFIER);
+    const protocolToken = this._expectName();
     objectInfo.protocol = protocolToken.value as string;
-    objectInfo._protocolId = this._stringTable.intern(objectInfo.protocol);
+    objectInfo._protocolId = this._intern(objectInfo.protocol);
 
     // Protocol version (optional)
     if (this._currentToken.type === TokenType.LPAREN) {
@@ -508,73 +1672,143 @@ export class Reader {
       this._expect(TokenType.RPAREN);
     }
 
-    // Check if user wants this object
-    const objectRequest = this.object(
-      objectInfo.name,
-      objectInfo.protocol,
-      objectInfo.protocolVersion,
-      objectInfo
-    );
+    // Object body - only well-formed headers reach the callbacks
+    this._expect(TokenType.LBRACE);
+
+    // Check if user wants this object (deferred to accessObject() in RandomAccess mode)
+    const objectRequest = this._mode & ReaderMode.RandomAccess
+      ? Request.Skip
+      : this.object(
+        objectInfo.name,
+        objectInfo.protocol,
+        objectInfo.protocolVersion,
+        objectInfo
+      );
 
     objectInfo._componentOffset = this._components.length;
+    this._checkLimit('maxObjects', this._objects.length + 1, 'Number of objects');
     this._objects.push(objectInfo);
 
-    // Parse object body
-    this._expect(TokenType.LBRACE);
-
     while (this._currentToken.type !== TokenType.RBRACE) {
-      this._parseComponent(objectInfo, objectRequest);
+      if (this._options.lenient && this._currentToken.type === TokenType.EOF) {
+        this._warn(ParseErrorCode.UnexpectedEOF, `Missing '}' at end of object '${objectInfo.name}'`);
+        break;
+      }
+      const counts = this._infoCounts();
+      try {
+        this._parseComponent(objectInfo, objectRequest);
+      } catch (e) {
+        this._recover(e, counts);
+        this._syncBlock();
+      }
     }
 
-    this._expect(TokenType.RBRACE);
+    if (this._currentToken.type === TokenType.RBRACE) {
+      this._advance();
+    }
+    this._context = {};
 
     objectInfo.numComponents = this._components.length - objectInfo._componentOffset;
   }
 
   /**
-   * Parse a component declaration
+   * Parse a component declaration, including any nested components
+   * @param parentRequest - Request made for the object or parent component
+   * @param level - Nesting depth (childLevel)
    */
-  private _parseComponent(objectInfo: ObjectInfo, objectRequest: Request): void {
+  private _parseComponent(objectInfo: ObjectInfo, parentRequest: Request, level: number = 0): void {
     const componentInfo = new ComponentInfo();
     componentInfo._object = objectInfo;
+    componentInfo.childLevel = level;
 
-    // Component name (can be identifier or quoted string)
-    let nameToken: Token;
-    if (this._currentToken.type === TokenType.STRING) {
-      nameToken = this._advance();
-    } else {
-      nameToken = this._expect(TokenType.IDENTIFIER);
-    }
+    // Component name (identifier or quoted string)
+    const nameToken = this._expectName();
     componentInfo.name = nameToken.value as string;
-    componentInfo._nameId = this._stringTable.intern(componentInfo.name);
+    componentInfo._nameId = this._intern(componentInfo.name);
+    this._context = { object: objectInfo.name, component: componentInfo.name };
 
     // Optional interpretation: "as interpretation"
     if (this._currentToken.type === TokenType.AS) {
       this._advance();
-      const interpToken = this._expect(TokenType.IDENTIFIER);
+      const interpToken = this._expectName();
       componentInfo.interpretation = interpToken.value as string;
-      componentInfo._interpretationId = this._stringTable.intern(componentInfo.interpretation);
+      componentInfo._interpretationId = this._intern(componentInfo.interpretation);
     }
 
+    // Component body - only well-formed headers reach the callbacks
+    this._expect(TokenType.LBRACE);
+
     // Check if user wants this component
     let componentRequest = Request.Skip;
-    if (objectRequest === Request.Read) {
+    if (parentRequest === Request.Read) {
       componentRequest = this.component(componentInfo.name, componentInfo);
     }
 
     componentInfo._propertyOffset = this._properties.length;
     this._components.push(componentInfo);
 
-    // Parse component body
-    this._expect(TokenType.LBRACE);
-
+    let hasChildren = false;
     while (this._currentToken.type !== TokenType.RBRACE) {
-      this._parseProperty(componentInfo, componentRequest);
+      if (this._options.lenient && this._currentToken.type === TokenType.EOF) {
+        this._warn(ParseErrorCode.UnexpectedEOF, `Missing '}' at end of component '${componentInfo.name}'`);
+        break;
+      }
+      const counts = this._infoCounts();
+
+      if (this._atComponent()) {
+        // The component's own properties end where its first child begins
+        if (!hasChildren) {
+          hasChildren = true;
+          componentInfo.numProperties = this._properties.length - componentInfo._propertyOffset;
+        }
+        try {
+          this._parseComponent(objectInfo, componentRequest, level + 1);
+        } catch (e) {
+          this._recover(e, counts);
+          this._syncBlock();
+        }
+        this._context = { object: objectInfo.name, component: componentInfo.name };
+        continue;
+      }
+
+      try {
+        if (hasChildren) {
+          throw this._syntaxError(
+            ParseErrorCode.UnexpectedToken,
+            `Properties of component '${componentInfo.name}' must come before its nested components`
+          );
+        }
+        this._parseProperty(componentInfo, componentRequest);
+      } catch (e) {
+        this._recover(e, counts);
+        this._syncProperty();
+      }
+    }
+
+    if (this._currentToken.type === TokenType.RBRACE) {
+      this._advance();
     }
+    this._context = { object: objectInfo.name };
 
-    this._expect(TokenType.RBRACE);
+    if (!hasChildren) {
+      componentInfo.numProperties = this._properties.length - componentInfo._propertyOffset;
+    }
+  }
 
-    componentInfo.numProperties = this._properties.length - componentInfo._propertyOffset;
+  /**
+   * Check whether the current token starts a nested component rather than a
+   * property: a quoted name, or a name followed by '{' or 'as'
+   */
+  private _atComponent(): boolean {
+    const type = this._currentToken.type;
+    if (type === TokenType.STRING) {
+      return true;
+    }
+    if (type !== TokenType.IDENTIFIER) {
+      return false;
+    }
+    const next = this._lexer.peekToken().type;
+    return next === TokenType.LBRACE || next === TokenType.AS;
   }
 
   /**
@@ -584,13 +1818,14 @@ export class Reader {
     const propertyInfo = new PropertyInfo();
     propertyInfo._component = componentInfo;
 
+    this._context.property = undefined;
+
     // Type: float, int, double, etc.
-    const typeToken = this._expect(TokenType.IDENTIFIER);
-    const typeName = typeToken.value as string;
-    if (!(typeName in TypeNameToDataType)) {
-      throw new Error(`Unknown type '${typeName}' at line ${this._lexer.line}`);
+    if (this._currentToken.type === TokenType.IDENTIFIER && !((this._currentToken.value as string) in TypeNameToDataType)) {
+      throw this._syntaxError(ParseErrorCode.UnknownType, `Unknown type '${this._currentToken.value}'`);
     }
-    propertyInfo.type = TypeNameToDataType[typeName];
+    const typeToken = this._expect(TokenType.IDENTIFIER);
+    propertyInfo.type = TypeNameToDataType[typeToken.value as string];
 
     // Optional dimensions: [dim1,dim2,...]
     if (this._currentToken.type === TokenType.LBRACKET) {
@@ -602,11 +1837,13 @@ export class Reader {
         dims.push(this._expect(TokenType.NUMBER).value as number);
       }
       this._expect(TokenType.RBRACKET);
-      propertyInfo.width = dims.length === 1 ? dims[0] : 1;
+      if (dims.length > 4) {
+        throw this._syntaxError(ParseErrorCode.UnexpectedToken, `Properties have at most 4 dimensions, got [${dims.join(',')}]`);
+      }
+      // type[4,4] holds 16 values per element, shaped 4x4
+      propertyInfo.width = dims.reduce((a, b) => a * b, 1);
       if (dims.length > 1) {
-        propertyInfo.dims = dims as [number, number, number, number];
-      } else {
-        propertyInfo.width = dims[0];
+        propertyInfo.dims = padDimensions(dims);
       }
     }
 
@@ -617,17 +1854,18 @@ export class Reader {
       this._expect(TokenType.RBRACKET);
     }
 
-    // Property name
-    const nameToken = this._expect(TokenType.IDENTIFIER);
+    // Property name (identifier or quoted string)
+    const nameToken = this._expectName();
     propertyInfo.name = nameToken.value as string;
-    propertyInfo._nameId = this._stringTable.intern(propertyInfo.name);
+    propertyInfo._nameId = this._intern(propertyInfo.name);
+    this._context.property = propertyInfo.name;
 
     // Optional interpretation: "as interpretation"
     if (this._currentToken.type === TokenType.AS) {
       this._advance();
-      const interpToken = this._expect(TokenType.IDENTIFIER);
+      const interpToken = this._expectName();
       propertyInfo.interpretation = interpToken.value as string;
-      propertyInfo._interpretationId = this._stringTable.intern(propertyInfo.interpretation);
+      propertyInfo._interpretationId = this._intern(propertyInfo.interpretation);
     }
 
     // Check if user wants this property
@@ -640,23 +1878,39 @@ export class Reader {
       );
     }
 
+    this._checkLimit('maxProperties', this._properties.length + 1, 'Number of properties');
     this._properties.push(propertyInfo);
 
     // Equals sign
     this._expect(TokenType.EQUALS);
 
     // Parse data - can be array or single value
-    let data: number[];
+    let parsed: (number | bigint)[];
     if (this._currentToken.type === TokenType.LBRACKET) {
-      data = this._parseData(propertyInfo);
+      parsed = this._parseData(propertyInfo);
     } else {
       // Single value without brackets
-      data = this._parseSingleValue(propertyInfo);
+      parsed = this._parseSingleValue(propertyInfo);
     }
 
+    const values = this._settleIntegers(propertyInfo, parsed);
+    this._elementCount += values.length;
+    this._checkLimit('maxElements', this._elementCount, 'Number of values');
+
     // Update size based on actual data
-    if (propertyInfo.size === 0 && data.length > 0) {
-      propertyInfo.size = Math.floor(data.length / (propertyInfo.width || 1));
+    if (propertyInfo.size === 0 && values.length > 0) {
+      propertyInfo.size = Math.floor(values.length / (propertyInfo.width || 1));
+    } else if (propertyInfo.size > 0 && values.length !== propertyInfo.totalCount) {
+      this._warn(
+        ParseErrorCode.SizeMismatch,
+        `Declared ${propertyInfo.totalCount} values but found ${values.length}`
+      );
+    }
+
+    const data = this._options.typedArrays ? this._toTypedArray(propertyInfo, values) : values;
+
+    if (this._mode & ReaderMode.RandomAccess) {
+      this._textData.set(propertyInfo, data);
     }
 
     if (propertyRequest === Request.Read) {
@@ -672,22 +1926,21 @@ export class Reader {
   /**
    * Parse property data values
    */
-  private _parseData(propertyInfo: PropertyInfo): number[] {
-    const data: number[] = [];
+  private _parseData(propertyInfo: PropertyInfo): (number | bigint)[] {
+    const data: (number | bigint)[] = [];
 
     this._expect(TokenType.LBRACKET);
 
     while (this._currentToken.type !== TokenType.RBRACKET) {
       if (this._currentToken.type === TokenType.LBRACKET) {
         // Nested array
-        const nested = this._parseNestedData(propertyInfo);
-        data.push(...nested);
+        this._parseNestedData(propertyInfo, data);
       } else if (this._currentToken.type === TokenType.NUMBER) {
-        data.push(this._advance().value as number);
+        data.push(propertyInfo.type === DataType.String ? this._parseStringId() : this._advance().value as number);
       } else if (this._currentToken.type === TokenType.STRING) {
         const strValue = this._advance().value as string;
         if (propertyInfo.type === DataType.String) {
-          data.push(this._stringTable.intern(strValue));
+          data.push(this._intern(strValue));
         } else {
           data.push(strValue as unknown as number);
         }
@@ -699,10 +1952,10 @@ export class Reader {
         } else if (id === 'false') {
           data.push(0);
         } else {
-          data.push(this._stringTable.intern(id));
+          data.push(this._intern(id));
         }
       } else {
-        throw new Error(`Unexpected token ${this._currentToken.type} in data at line ${this._lexer.line}`);
+        throw this._syntaxError(this._dataErrorCode(), `Unexpected token ${this._currentToken.type} in data`);
       }
 
       // Optional comma
@@ -717,24 +1970,21 @@ export class Reader {
   }
 
   /**
-   * Parse nested array data
+   * Parse nested array data, appending its values to `data`
    */
-  private _parseNestedData(propertyInfo: PropertyInfo): number[] {
-    const data: number[] = [];
-
+  private _parseNestedData(propertyInfo: PropertyInfo, data: (number | bigint)[]): void {
     this._expect(TokenType.LBRACKET);
 
     while (this._currentToken.type !== TokenType.RBRACKET) {
       if (this._currentToken.type === TokenType.LBRACKET) {
         // Further nested
-        const nested = this._parseNestedData(propertyInfo);
-        data.push(...nested);
+        this._parseNestedData(propertyInfo, data);
       } else if (this._currentToken.type === TokenType.NUMBER) {
-        data.push(this._advance().value as number);
+        data.push(propertyInfo.type === DataType.String ? this._parseStringId() : this._advance().value as number);
       } else if (this._currentToken.type === TokenType.STRING) {
         const strValue = this._advance().value as string;
         if (propertyInfo.type === DataType.String) {
-          data.push(this._stringTable.intern(strValue));
+          data.push(this._intern(strValue));
         } else {
           data.push(strValue as unknown as number);
         }
@@ -745,10 +1995,10 @@ export class Reader {
         } else if (id === 'false') {
           data.push(0);
         } else {
-          data.push(this._stringTable.intern(id));
+          data.push(this._intern(id));
         }
       } else {
-        throw new Error(`Unexpected token ${this._currentToken.type} in nested data at line ${this._lexer.line}`);
+        throw this._syntaxError(this._dataErrorCode(), `Unexpected token ${this._currentToken.type} in nested data`);
       }
 
       // Optional comma
@@ -758,20 +2008,18 @@ export class Reader {
     }
 
     this._expect(TokenType.RBRACKET);
-
-    return data;
   }
 
   /**
    * Parse a single value (not in array brackets)
    */
-  private _parseSingleValue(propertyInfo: PropertyInfo): number[] {
+  private _parseSingleValue(propertyInfo: PropertyInfo): (number | bigint)[] {
     if (this._currentToken.type === TokenType.NUMBER) {
-      return [this._advance().value as number];
+      return [propertyInfo.type === DataType.String ? this._parseStringId() : this._advance().value as number];
     } else if (this._currentToken.type === TokenType.STRING) {
       const strValue = this._advance().value as string;
       if (propertyInfo.type === DataType.String) {
-        return [this._stringTable.intern(strValue)];
+        return [this._intern(strValue)];
       }
       return [strValue as unknown as number];
     } else if (this._currentToken.type === TokenType.IDENTIFIER) {
@@ -781,21 +2029,101 @@ export class Reader {
       } else if (id === 'false') {
         return [0];
       }
-      return [this._stringTable.intern(id)];
+      return [this._intern(id)];
+    }
+    throw this._syntaxError(this._dataErrorCode(), `Unexpected token ${this._currentToken.type} for single value`);
+  }
+
+  /**
+   * Parse a number in string data as a string table index, which must name a
+   * string already in the table
+   */
+  private _parseStringId(): number {
+    const id = this._currentToken.value as number;
+    const numStrings = this._stringTable.size;
+    if (!Number.isInteger(id) || id < 0 || id >= numStrings) {
+      throw this._syntaxError(ParseErrorCode.InvalidStringId, `String index ${id} out of range (0-${numStrings - 1})`);
     }
-    throw new Error(`Unexpected token ${this._currentToken.type} for single value at line ${this._lexer.line}`);
+    this._advance();
+    return id;
+  }
+
+  /**
+   * Settle integer literals beyond 2^53: int64 properties keep them exact
+   * when they are delivered as bigint, everything else gets the nearest number
+   */
+  private _settleIntegers(propertyInfo: PropertyInfo, values: (number | bigint)[]): number[] | bigint[] {
+    if (propertyInfo.type === DataType.Int64 && (this._options.bigInt || this._options.typedArrays)) {
+      return values.map(value => {
+        if (typeof value === 'bigint') {
+          return value;
+        }
+        if (!Number.isInteger(value)) {
+          throw this._syntaxError(ParseErrorCode.UnexpectedToken, `Invalid int64 value ${value}`);
+        }
+        return BigInt(value);
+      });
+    }
+    return values.some(value => typeof value === 'bigint') ? values.map(Number) : values as number[];
+  }
+
+  /**
+   * Error code for an unexpected token inside property data
+   */
+  private _dataErrorCode(): ParseErrorCode {
+    return this._currentToken.type === TokenType.EOF ? ParseErrorCode.UnexpectedEOF : ParseErrorCode.UnexpectedToken;
   }
 
   // ============================================
   // Binary format parsing
   // ============================================
 
+  /**
+   * Parse decompressed content, which may be a compressed text file
+   */
+  private _parseBytes(content: Uint8Array): void {
+    if (detectFormat(content) === 'text') {
+      // UTF-8, dropping any byte order mark
+      this._parse(new TextDecoder().decode(content));
+    } else {
+      this._parseBinary(content);
+    }
+  }
+
   /**
    * Parse binary GTO content
    */
   private _parseBinary(content: ArrayBuffer | Uint8Array): void {
-    const buffer = content instanceof ArrayBuffer ? content : content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength);
-    const view = new DataView(buffer);
+    // View the bytes in place - RandomAccess mode keeps this view for later reads
+    const view = content instanceof ArrayBuffer
+      ? new DataView(content)
+      : new DataView(content.buffer, content.byteOffset, content.byteLength);
+
+    const layout = this._readBinaryHeaders(view);
+    if (!layout) {
+      return;
+    }
+
+    // In RandomAccess mode only the info tables are built here; data is
+    // decoded later through readProperty() / accessObject()
+    if (this._mode & ReaderMode.RandomAccess) {
+      this._binaryView = view;
+      this._littleEndian = layout.littleEndian;
+    }
+
+    for (const step of this._walkBinary(layout)) {
+      this._ensureBytes(view, step.offset, step.end - step.offset, 'property data');
+      this._readBinaryProperty(view, step.offset, step, layout.littleEndian);
+    }
+  }
+
+  /**
+   * Read the file header, string table and object/component/property
+   * header tables, and run the header callback
+   * @returns The header tables, or null in HeaderOnly mode
+   */
+  private _readBinaryHeaders(view: DataView): BinaryLayout | null {
+    this._ensureBytes(view, 0, 20, 'file header');
 
     // Detect endianness from magic number
     const magic = view.getUint32(0, true); // Try little-endian first
@@ -805,8 +2133,9 @@ export class Reader {
     } else if (view.getUint32(0, false) === GTO_MAGIC) {
       littleEndian = false;
     } else {
-      throw new Error(`Invalid GTO magic number: 0x${magic.toString(16)}`);
+      throw new GTOBinaryError(ParseErrorCode.InvalidMagic, `Invalid GTO magic number: 0x${magic.toString(16)}`, { offset: 0 });
     }
+    this._checkHeaderLimits(view);
 
     let offset = 0;
 
@@ -822,54 +2151,73 @@ export class Reader {
     this._header.numObjects = numObjects;
     this._header.version = version;
     this._header.flags = flags;
+    this._header.byteOrder = littleEndian ? 'little' : 'big';
 
     // Call header callback
     this.header(this._header);
 
     if (this._mode & ReaderMode.HeaderOnly) {
-      return;
+      return null;
     }
 
-    // Read string table
+    // Read string table - every string takes at least its terminator
+    if (numStrings > view.byteLength - offset) {
+      throw new GTOBinaryError(ParseErrorCode.Truncated, 'String table extends past end of file', { offset });
+    }
     const stringTableBytes = this._stringTable.readFromBinary(view, offset, numStrings, littleEndian);
+    if (offset + stringTableBytes > view.byteLength) {
+      throw new GTOBinaryError(ParseErrorCode.Truncated, 'String table extends past end of file', { offset });
+    }
+    const maxStringLength = this._options.limits?.maxStringLength;
+    if (maxStringLength !== undefined) {
+      let at = offset;
+      for (const str of this._stringTable.strings) {
+        this._checkLimit('maxStringLength', str.length, 'String length', at);
+        while (view.getUint8(at) !== 0) {
+          at++;
+        }
+        at++;
+      }
+    }
     offset += stringTableBytes;
 
+    // Validate a string table index read from a header at the given offset
+    const checkStringId = (id: number, at: number): number => {
+      if (id >= numStrings) {
+        throw new GTOBinaryError(
+          ParseErrorCode.InvalidStringId,
+          `String index ${id} out of range (0-${numStrings - 1})`,
+          { offset: at }
+        );
+      }
+      return id;
+    };
+
     // Read object headers
-    interface BinaryObjectHeader {
-      nameId: number;
-      protocolId: number;
-      protocolVersion: number;
-      numComponents: number;
-    }
-    const objectHeaders: BinaryObjectHeader[] = [];
+    const objects: BinaryObjectHeader[] = [];
+    this._ensureBytes(view, offset, numObjects * 20, 'object headers');
     for (let i = 0; i < numObjects; i++) {
-      const nameId = view.getUint32(offset, littleEndian); offset += 4;
-      const protocolId = view.getUint32(offset, littleEndian); offset += 4;
+      const nameId = checkStringId(view.getUint32(offset, littleEndian), offset); offset += 4;
+      const protocolId = checkStringId(view.getUint32(offset, littleEndian), offset); offset += 4;
       const protocolVersion = view.getUint32(offset, littleEndian); offset += 4;
       const numComponents = view.getUint32(offset, littleEndian); offset += 4;
       offset += 4; // pad
 
-      objectHeaders.push({ nameId, protocolId, protocolVersion, numComponents });
+      objects.push({ nameId, protocolId, protocolVersion, numComponents });
     }
 
     // Count total components and properties
     let totalComponents = 0;
-    for (const obj of objectHeaders) {
+    for (const obj of objects) {
       totalComponents += obj.numComponents;
     }
 
     // Read component headers (20 bytes each for v4+, 16 bytes for older)
-    interface BinaryComponentHeader {
-      nameId: number;
-      interpretationId: number;
-      numProperties: number;
-      flags: number;
-      childLevel: number;
-    }
-    const componentHeaders: BinaryComponentHeader[] = [];
+    const components: BinaryComponentHeader[] = [];
+    this._ensureBytes(view, offset, totalComponents * (version >= 4 ? 20 : 16), 'component headers');
     for (let i = 0; i < totalComponents; i++) {
-      const nameId = view.getUint32(offset, littleEndian); offset += 4;
-      const interpretationId = view.getUint32(offset, littleEndian); offset += 4;
+      const nameId = checkStringId(view.getUint32(offset, littleEndian), offset); offset += 4;
+      const interpretationId = checkStringId(view.getUint32(offset, littleEndian), offset); offset += 4;
       const numProperties = view.getUint32(offset, littleEndian); offset += 4;
       const compFlags = view.getUint32(offset, littleEndian); offset += 4;
 
@@ -879,29 +2227,29 @@ export class Reader {
         childLevel = view.getUint32(offset, littleEndian); offset += 4;
       }
 
-      componentHeaders.push({ nameId, interpretationId, numProperties, flags: compFlags, childLevel });
+      components.push({ nameId, interpretationId, numProperties, flags: compFlags, childLevel });
     }
 
     // Count total properties
     let totalProperties = 0;
-    for (const comp of componentHeaders) {
+    for (const comp of components) {
       totalProperties += comp.numProperties;
     }
 
-    // Read property headers (28 bytes for v3, 40 bytes for v4+)
-    interface BinaryPropertyHeader {
-      nameId: number;
-      interpretationId: number;
-      type: DataType;
-      size: number;
-      width: number;
-      dims: [number, number, number, number];
-    }
-    const propertyHeaders: BinaryPropertyHeader[] = [];
+    // Read property headers (36 bytes for v4+, 20 bytes for older)
+    const properties: BinaryPropertyHeader[] = [];
+    this._checkLimit('maxProperties', totalProperties, 'Number of properties', offset);
+    this._ensureBytes(view, offset, totalProperties * (version >= 4 ? 36 : 20), 'property headers');
+    let totalElements = 0;
     for (let i = 0; i < totalProperties; i++) {
-      const nameId = view.getUint32(offset, littleEndian); offset += 4;
-      const interpretationId = view.getUint32(offset, littleEndian); offset += 4;
-      const type = view.getUint8(offset) as DataType; offset += 1;
+      const start = offset;
+      const nameId = checkStringId(view.getUint32(offset, littleEndian), offset); offset += 4;
+      const interpretationId = checkStringId(view.getUint32(offset, littleEndian), offset); offset += 4;
+      const type = view.getUint8(offset) as DataType;
+      if (!(type in DataTypeSize)) {
+        throw new GTOBinaryError(ParseErrorCode.UnknownType, `Unknown data type: ${type}`, { offset });
+      }
+      offset += 1;
       offset += 3; // pad (1 byte + 2 bytes)
       const size = view.getUint32(offset, littleEndian); offset += 4;
       const width = view.getUint32(offset, littleEndian); offset += 4;
@@ -915,14 +2263,31 @@ export class Reader {
         dims[3] = view.getUint32(offset, littleEndian); offset += 4;
       }
 
-      propertyHeaders.push({ nameId, interpretationId, type, size, width, dims });
+      totalElements += size * width;
+      this._checkLimit('maxElements', totalElements, 'Number of values', start);
+
+      properties.push({ nameId, interpretationId, type, size, width, dims });
     }
 
-    // Now process objects/components/properties with callbacks and read data
+    return { littleEndian, flags, objects, components, properties, dataOffset: offset };
+  }
+
+  /**
+   * Build the object/component/property infos from the header tables,
+   * running their callbacks in file order
+   *
+   * Yields once per property, before its data is read, so callers can fetch
+   * the data bytes however they arrive.
+   */
+  private *_walkBinary(layout: BinaryLayout): Generator<BinaryPropertyStep> {
+    const randomAccess = (this._mode & ReaderMode.RandomAccess) !== 0;
     let componentIdx = 0;
     let propertyIdx = 0;
+    let offset = layout.dataOffset;
 
-    for (const objHeader of objectHeaders) {
+    for (const objHeader of layout.objects) {
+      // Request made for the open component at each nesting level
+      const levelRequests: Request[] = [];
       const objectInfo = new ObjectInfo();
       objectInfo.name = this._stringTable.stringFromId(objHeader.nameId);
       objectInfo.protocol = this._stringTable.stringFromId(objHeader.protocolId);
@@ -931,18 +2296,21 @@ export class Reader {
       objectInfo._nameId = objHeader.nameId;
       objectInfo._protocolId = objHeader.protocolId;
       objectInfo._componentOffset = this._components.length;
+      this._context = { object: objectInfo.name };
 
-      const objectRequest = this.object(
-        objectInfo.name,
-        objectInfo.protocol,
-        objectInfo.protocolVersion,
-        objectInfo
-      );
+      const objectRequest = randomAccess
+        ? Request.Skip
+        : this.object(
+          objectInfo.name,
+          objectInfo.protocol,
+          objectInfo.protocolVersion,
+          objectInfo
+        );
 
       this._objects.push(objectInfo);
 
       for (let c = 0; c < objHeader.numComponents; c++) {
-        const compHeader = componentHeaders[componentIdx++];
+        const compHeader = layout.components[componentIdx++];
         const componentInfo = new ComponentInfo();
         componentInfo.name = this._stringTable.stringFromId(compHeader.nameId);
         componentInfo.interpretation = compHeader.interpretationId > 0
@@ -955,16 +2323,37 @@ export class Reader {
         componentInfo._interpretationId = compHeader.interpretationId;
         componentInfo._object = objectInfo;
         componentInfo._propertyOffset = this._properties.length;
+        this._context = { object: objectInfo.name, component: componentInfo.name };
+
+        // Nested components follow their parent, one level deeper
+        const level = compHeader.childLevel;
+        if (level > levelRequests.length) {
+          throw new GTOBinaryError(
+            ParseErrorCode.InvalidHeader,
+            `Component nesting level ${level} does not follow a component at level ${level - 1}`,
+            { offset }
+          );
+        }
+        const parentRequest = level === 0 ? objectRequest : levelRequests[level - 1];
+        levelRequests.length = level;
 
         let componentRequest = Request.Skip;
-        if (objectRequest === Request.Read) {
+        if (parentRequest === Request.Read) {
           componentRequest = this.component(componentInfo.name, componentInfo);
         }
+        levelRequests.push(componentRequest);
 
         this._components.push(componentInfo);
 
+        // A transposed component stores its data element by element, with
+        // the properties interleaved within each element
+        const block = (layout.flags | compHeader.flags) & HeaderFlags.Transposed
+          ? this._transposedBlock(layout.properties.slice(propertyIdx, propertyIdx + compHeader.numProperties), offset)
+          : null;
+        let fieldOffset = offset;
+
         for (let p = 0; p < compHeader.numProperties; p++) {
-          const propHeader = propertyHeaders[propertyIdx++];
+          const propHeader = layout.properties[propertyIdx++];
           const propertyInfo = new PropertyInfo();
           propertyInfo.name = this._stringTable.stringFromId(propHeader.nameId);
           propertyInfo.interpretation = propHeader.interpretationId > 0
@@ -977,7 +2366,9 @@ export class Reader {
           propertyInfo._nameId = propHeader.nameId;
           propertyInfo._interpretationId = propHeader.interpretationId;
           propertyInfo._component = componentInfo;
-          propertyInfo._dataOffset = offset;
+          propertyInfo._dataOffset = block ? fieldOffset : offset;
+          propertyInfo._dataStride = block ? block.stride : 0;
+          this._context.property = propertyInfo.name;
 
           let propertyRequest = Request.Skip;
           if (componentRequest === Request.Read) {
@@ -990,67 +2381,213 @@ export class Reader {
 
           this._properties.push(propertyInfo);
 
-          // Calculate data size and read data
-          const totalCount = propertyInfo.size * propertyInfo.width;
-          const typeSize = DataTypeSize[propertyInfo.type] || 4;
-          const dataBytes = totalCount * typeSize;
-
-          if (propertyRequest === Request.Read && totalCount > 0) {
-            const data = this._readBinaryData(view, offset, propertyInfo, totalCount, littleEndian);
-            const dataBuffer = this.data(propertyInfo, dataBytes);
-            if (dataBuffer !== null) {
-              this.dataRead(propertyInfo, data);
-            }
+          // Calculate data size
+          const count = propertyInfo.size * propertyInfo.width;
+          const bytes = count * (DataTypeSize[propertyInfo.type] || 4);
+          if (block) {
+            const last = p === compHeader.numProperties - 1;
+            yield {
+              info: propertyInfo,
+              request: propertyRequest,
+              offset: fieldOffset,
+              count,
+              bytes,
+              stride: block.stride,
+              end: block.end,
+              release: last ? block.end : offset
+            };
+            fieldOffset += propertyInfo.width * (DataTypeSize[propertyInfo.type] || 4);
+          } else {
+            yield { info: propertyInfo, request: propertyRequest, offset, count, bytes, stride: 0, end: offset + bytes, release: offset + bytes };
+            offset += bytes;
           }
-
-          offset += dataBytes;
+        }
+        if (block) {
+          offset = block.end;
         }
       }
     }
+    this._context = {};
   }
 
   /**
-   * Read binary property data
+   * Layout of the data block of a transposed component starting at `offset`
+   * All properties must have the same number of elements.
    */
-  private _readBinaryData(view: DataView, offset: number, propertyInfo: PropertyInfo, count: number, littleEndian: boolean): number[] {
-    const data: number[] = [];
-    const type = propertyInfo.type;
-    const typeSize = DataTypeSize[type] || 4;
+  private _transposedBlock(properties: BinaryPropertyHeader[], offset: number): { stride: number; end: number } {
+    let stride = 0;
+    for (const property of properties) {
+      if (property.size !== properties[0].size) {
+        throw new GTOBinaryError(
+          ParseErrorCode.SizeMismatch,
+          `Properties of a transposed component must have the same size (${properties[0].size} vs ${property.size})`,
+          { offset }
+        );
+      }
+      stride += property.width * (DataTypeSize[property.type] || 4);
+    }
+    const size = properties.length > 0 ? properties[0].size : 0;
+    return { stride, end: offset + size * stride };
+  }
+
+  /**
+   * Copy the elements of a transposed property out of its component's
+   * interleaved block into contiguous bytes
+   * @returns View of the gathered bytes, starting at offset 0
+   */
+  private _gatherTransposed(view: DataView, offset: number, info: PropertyInfo, stride: number): DataView {
+    const elementBytes = info.width * (DataTypeSize[info.type] || 4);
+    const source = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+    const gathered = new Uint8Array(info.size * elementBytes);
+    for (let i = 0; i < info.size; i++) {
+      const start = offset + i * stride;
+      gathered.set(source.subarray(start, start + elementBytes), i * elementBytes);
+    }
+    return new DataView(gathered.buffer);
+  }
+
+  /**
+   * Decode the data of a walked property and hand it to data()/dataRead()
+   * @param view - View holding the property data
+   * @param offset - Offset of the data within `view`
+   */
+  private _readBinaryProperty(view: DataView, offset: number, step: BinaryPropertyStep, littleEndian: boolean): void {
+    if (step.request !== Request.Read || step.count === 0) {
+      return;
+    }
+    if (step.stride) {
+      view = this._gatherTransposed(view, offset, step.info, step.stride);
+      offset = 0;
+    }
+    const data = this._decodeBinaryData(view, offset, step.info, step.count, littleEndian);
+    const dataBuffer = this.data(step.info, step.bytes);
+    if (dataBuffer !== null) {
+      this.dataRead(step.info, data);
+    }
+  }
+
+  /**
+   * Check the string and object counts in the file header of a binary file
+   * against the limits, before the tables they size have arrived
+   */
+  private _checkHeaderLimits(view: DataView): void {
+    const littleEndian = view.getUint32(0, true) === GTO_MAGIC;
+    this._checkLimit('maxStrings', view.getUint32(4, littleEndian), 'Number of strings', 4);
+    this._checkLimit('maxObjects', view.getUint32(8, littleEndian), 'Number of objects', 8);
+  }
+
+  /**
+   * Throw a LimitExceeded error if `value` is over the given limit
+   * @param offset - Byte offset for binary files; text errors are located at
+   *                 the current token
+   */
+  private _checkLimit(limit: keyof ReaderLimits, value: number, what: string, offset?: number): void {
+    const max = this._options.limits?.[limit];
+    if (max === undefined || value <= max) {
+      return;
+    }
+    const reason = `${what} (${value}) exceeds the ${limit} limit of ${max}`;
+    throw offset === undefined
+      ? this._syntaxError(ParseErrorCode.LimitExceeded, reason)
+      : new GTOBinaryError(ParseErrorCode.LimitExceeded, reason, { offset });
+  }
 
-    for (let i = 0; i < count; i++) {
-      const value = this._readBinaryValue(view, offset + i * typeSize, type, littleEndian);
-      data.push(value);
+  /**
+   * Throw a truncation error unless `count` bytes are available at `offset`
+   */
+  private _ensureBytes(view: DataView, offset: number, count: number, what: string): void {
+    if (offset + count > view.byteLength) {
+      throw new GTOBinaryError(
+        ParseErrorCode.Truncated,
+        `Unexpected end of file reading ${what} (need ${count} bytes, ${Math.max(0, view.byteLength - offset)} available)`,
+        { offset }
+      );
     }
+  }
 
+  /**
+   * Decode binary property data in the representation selected by the options
+   */
+  private _decodeBinaryData(view: DataView, offset: number, propertyInfo: PropertyInfo, count: number, littleEndian: boolean): PropertyValues {
+    const data = this._options.typedArrays
+      ? this._readTypedData(view, offset, propertyInfo, count, littleEndian)
+      : this._readBinaryData(view, offset, propertyInfo, count, littleEndian);
+    if (propertyInfo.type === DataType.String) {
+      this._checkStringIds(propertyInfo, data as ArrayLike<number>);
+    }
     return data;
   }
 
   /**
-   * Read a single binary value
+   * Throw an InvalidStringId error for binary string data past the end of the
+   * string table, located at the offending value
+   */
+  private _checkStringIds(propertyInfo: PropertyInfo, ids: ArrayLike<number>): void {
+    const numStrings = this._stringTable.size;
+    for (let i = 0; i < ids.length; i++) {
+      if (ids[i] < numStrings) {
+        continue;
+      }
+      const { width, _dataOffset, _dataStride } = propertyInfo;
+      const offset = _dataStride
+        ? _dataOffset + Math.floor(i / width) * _dataStride + (i % width) * 4
+        : _dataOffset + i * 4;
+      throw new GTOBinaryError(
+        ParseErrorCode.InvalidStringId,
+        `String index ${ids[i]} out of range (0-${numStrings - 1})`,
+        { fileName: this._filename, offset, property: propertyInfo.name }
+      );
+    }
+  }
+
+  /**
+   * Read binary property data as a typed array
+   * Returns a view over the file buffer when byte order and alignment allow
+   */
+  private _readTypedData(view: DataView, offset: number, propertyInfo: PropertyInfo, count: number, littleEndian: boolean): PropertyTypedArray {
+    const type = propertyInfo.type;
+    const ArrayType = TypedArrayForType[type];
+    const byteOffset = view.byteOffset + offset;
+
+    if (type !== DataType.Half &&
+        littleEndian === HOST_LITTLE_ENDIAN &&
+        byteOffset % ArrayType.BYTES_PER_ELEMENT === 0) {
+      return new ArrayType(view.buffer, byteOffset, count);
+    }
+
+    // Byte order or alignment mismatch (or half floats) - copy
+    return decodeValues(new Uint8Array(view.buffer, byteOffset, count * DataTypeSize[type]), type, count, littleEndian);
+  }
+
+  /**
+   * Convert parsed text values to the typed array for the property type
+   */
+  private _toTypedArray(propertyInfo: PropertyInfo, data: number[] | bigint[]): PropertyTypedArray {
+    if (propertyInfo.type === DataType.Int64) {
+      return BigInt64Array.from(data as bigint[]);
+    }
+    const result = new TypedArrayForType[propertyInfo.type](data.length) as Exclude<PropertyTypedArray, BigInt64Array>;
+    result.set(data as number[]);
+    return result;
+  }
+
+  /**
+   * Read binary property data as an array
    */
-  private _readBinaryValue(view: DataView, offset: number, type: DataType, littleEndian: boolean): number {
-    switch (type) {
-      case DataType.Int:
-        return view.getInt32(offset, littleEndian);
-      case DataType.Float:
-        return view.getFloat32(offset, littleEndian);
-      case DataType.Double:
-        return view.getFloat64(offset, littleEndian);
-      case DataType.Half:
-        return halfToFloat(view.getUint16(offset, littleEndian));
-      case DataType.String:
-        return view.getUint32(offset, littleEndian);
-      case DataType.Boolean:
-        return view.getUint8(offset) !== 0 ? 1 : 0;
-      case DataType.Short:
-        return view.getUint16(offset, littleEndian);
-      case DataType.Byte:
-        return view.getUint8(offset);
-      case DataType.Int64:
-        return Number(view.getBigInt64(offset, littleEndian));
-      default:
-        throw new Error(`Unknown data type: ${type}`);
+  private _readBinaryData(view: DataView, offset: number, propertyInfo: PropertyInfo, count: number, littleEndian: boolean): number[] | bigint[] {
+    const type = propertyInfo.type;
+    const values = this._readTypedData(view, offset, propertyInfo, count, littleEndian);
+
+    if (type === DataType.Int64) {
+      return this._options.bigInt
+        ? Array.from(values as BigInt64Array)
+        : Array.from(values as BigInt64Array, Number);
     }
+    if (type === DataType.Boolean) {
+      // A view over the file may hold any nonzero byte for true
+      return Array.from(values as Uint8Array, value => value ? 1 : 0);
+    }
+    return Array.from(values as Exclude<PropertyTypedArray, BigInt64Array>);
   }
 
   // ============================================
@@ -1099,7 +2636,7 @@ export class Reader {
   /**
    * Called after property data is read
    */
-  dataRead(_info: PropertyInfo, _data: number[]): void {
+  dataRead(_info: PropertyInfo, _data: PropertyValues): void {
     // Override in subclass
   }
 }
@@ -1116,6 +2653,8 @@ interface ParsedObject {
 interface ParsedComponent {
   interpretation: string;
   properties: Record<string, PropertyData>;
+  transposed?: boolean;
+  components?: Record<string, ParsedComponent>;
 }
 
 /**
@@ -1128,9 +2667,15 @@ export class SimpleReader extends Reader {
   };
   private _currentObject: ParsedObject | null = null;
   private _currentComponent: ParsedComponent | null = null;
+  // Open components by nesting level
+  private _componentStack: ParsedComponent[] = [];
 
-  constructor() {
-    super(ReaderMode.None);
+  /**
+   * Create a new SimpleReader
+   * @param options - Reader options
+   */
+  constructor(options: ReaderOptions = {}) {
+    super(ReaderMode.None, options);
   }
 
   override header(header: Header): void {
@@ -1153,7 +2698,20 @@ export class SimpleReader extends Reader {
       interpretation: info.interpretation,
       properties: {}
     };
-    this._currentObject!.components[name] = this._currentComponent as ComponentData;
+    if ((this._header.flags | info.flags) & HeaderFlags.Transposed) {
+      this._currentComponent.transposed = true;
+    }
+
+    // Nested components hang off the open component one level up
+    const parent = info.childLevel > 0 ? this._componentStack[info.childLevel - 1] : null;
+    if (parent) {
+      parent.components ??= {};
+      parent.components[name] = this._currentComponent as ComponentData;
+    } else {
+      this._currentObject!.components[name] = this._currentComponent as ComponentData;
+    }
+    this._componentStack.length = info.childLevel;
+    this._componentStack.push(this._currentComponent);
     return Request.Read;
   }
 
@@ -1161,7 +2719,7 @@ export class SimpleReader extends Reader {
     return Request.Read;
   }
 
-  override dataRead(info: PropertyInfo, data: number[]): void {
+  override dataRead(info: PropertyInfo, data: PropertyValues): void {
     const prop: PropertyData = {
       type: DataTypeName[info.type],
       size: info.size,
@@ -1169,24 +2727,45 @@ export class SimpleReader extends Reader {
       interpretation: info.interpretation,
       data: this._formatData(info, data)
     };
+    const shape = elementShape(info.dims);
+    if (shape) {
+      prop.dims = shape;
+    }
     this._currentComponent!.properties[info.name] = prop;
   }
 
-  private _formatData(info: PropertyInfo, data: number[]): unknown[] {
+  private _formatData(info: PropertyInfo, data: PropertyValues): unknown[] | PropertyTypedArray {
     // Convert string indices back to strings
     if (info.type === DataType.String) {
-      return data.map(id => this.stringFromId(id));
+      return Array.from(data as ArrayLike<number>, id => this.stringFromId(id));
+    }
+
+    // Typed arrays stay flat - group by width on access (see PropertyDTO.elements)
+    if (!Array.isArray(data)) {
+      return data;
+    }
+    const values: (number | bigint)[] = data;
+
+    // Multi-dimensional elements are nested by shape: float[4,4] gives 4 rows of 4
+    const shape = elementShape(info.dims);
+    if (shape) {
+      const elements: unknown[] = [];
+      for (let i = 0; i < values.length; i += info.width) {
+        elements.push(nestValues(values.slice(i, i + info.width), shape));
+      }
+      return elements;
     }
 
     // Group data by width if > 1
     if (info.width > 1) {
-      const grouped: number[][] = [];
-      for (let i = 0; i < data.length; i += info.width) {
-        grouped.push(data.slice(i, i + info.width));
+      const grouped: (number | bigint)[][] = [];
+      for (let i = 0; i < values.length; i += info.width) {
+        grouped.push(values.slice(i, i + info.width));
       }
       return grouped;
     }
 
-    return data;
+    return values;
   }
+
 }
@@ -0,0 +1,399 @@
+/**
+ * Streaming Writer
+ *
+ * Writes GTO files to a sink chunk by chunk instead of building the whole
+ * file in memory. Text is emitted as it is written. Binary files need every
+ * header before the first data byte, so they are written in two passes:
+ * declare all objects, components and properties, then supply the data of
+ * each property in order; only one property's data is held at a time.
+ *
+ * @example
+ * const writer = new StreamWriter(fs.createWriteStream('big.gto'));
+ * writer.open(FileType.BinaryGTO);
+ * writer.beginObject('mesh', 'polygon', 2);
+ * writer.beginComponent('points');
+ * writer.property('position', DataType.Float, count, 3);
+ * writer.endComponent();
+ * writer.endObject();
+ * writer.beginData();
+ * writer.propertyData(positions);
+ * await writer.end();
+ */
+
+import { DataType, DataTypeSize, FileType, HeaderFlags } from './constants.js';
+import { padDimensions } from './utils.js';
+import { encodeValues } from './binary-data.js';
+import { Writer, WriterState } from './writer.js';
+import type { WriterOptions, TextFormatOptions, DataArray, Value } from './writer.js';
+
+/** Minimal interface of a Node.js Writable stream */
+export interface NodeWritableLike {
+  write(chunk: Uint8Array, callback: (error?: Error | null) => void): boolean;
+  end(callback: () => void): unknown;
+}
+
+/** Receives each chunk of output; returning a promise holds back later chunks */
+export type ChunkCallback = (chunk: Uint8Array) => void | Promise<void>;
+
+/** Where StreamWriter output goes */
+export type OutputSink = WritableStream<Uint8Array> | NodeWritableLike | ChunkCallback;
+
+/** Uniform view of an OutputSink */
+interface ChunkTarget {
+  write(chunk: Uint8Array<ArrayBuffer>): Promise<void>;
+  close(): Promise<void>;
+}
+
+/** Text is emitted in chunks of about this many characters */
+const TEXT_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Adapt a sink to the ChunkTarget interface
+ */
+function chunkTarget(sink: OutputSink): ChunkTarget {
+  if (typeof sink === 'function') {
+    return {
+      write: async chunk => { await sink(chunk); },
+      close: async () => {}
+    };
+  }
+
+  if (typeof WritableStream !== 'undefined' && sink instanceof WritableStream) {
+    const writer = sink.getWriter();
+    return {
+      write: async chunk => {
+        await writer.ready;
+        await writer.write(chunk);
+      },
+      close: () => writer.close()
+    };
+  }
+
+  const stream = sink as NodeWritableLike;
+  return {
+    write: chunk => new Promise((resolve, reject) => {
+      stream.write(chunk, error => error ? reject(error) : resolve());
+    }),
+    close: () => new Promise(resolve => { stream.end(() => resolve()); })
+  };
+}
+
+/**
+ * Put a gzip CompressionStream in front of a target
+ */
+function gzipTarget(target: ChunkTarget): ChunkTarget {
+  if (typeof CompressionStream === 'undefined') {
+    throw new Error('Streaming compressed output requires CompressionStream');
+  }
+  const compression = new CompressionStream('gzip');
+  const writer = compression.writable.getWriter();
+  const reader = compression.readable.getReader();
+
+  const pump = (async () => {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      await target.write(value);
+    }
+  })();
+  // Unblock pending writes if the target fails
+  pump.catch(error => writer.abort(error).catch(() => {}));
+
+  return {
+    write: async chunk => {
+      await writer.ready;
+      await writer.write(chunk);
+    },
+    close: async () => {
+      await writer.close();
+      await pump;
+      await target.close();
+    }
+  };
+}
+
+/**
+ * Writer that streams its output to a sink
+ *
+ * The API is Writer's. Text files can use propertyWithData throughout. For
+ * binary files, declare properties with property() (or propertyWithData,
+ * which holds the data until it is written), call beginData() once every
+ * object has ended, then propertyData() for each property declared without
+ * data, in declaration order. Strings referenced by string data must be
+ * interned before beginData(), since the string table is written with the
+ * headers.
+ *
+ * Methods queue chunks and return immediately; await flush() now and then
+ * to wait for the sink to accept them, and end() to finish the file.
+ */
+export class StreamWriter extends Writer {
+  private _target: ChunkTarget;
+  private _queue: Promise<void> = Promise.resolve();
+  private _error: unknown = null;
+  private _encoder = new TextEncoder();
+  private _paths: string[] = [];       // Where each binary property is, for strict mode errors
+  // Binary data phase
+  private _headersWritten: boolean = false;
+  private _nextData: number = 0;       // Next property propertyData() fills
+  private _nextComponent: number = 0;  // First component not fully written
+  private _nextProperty: number = 0;   // First property not yet written
+
+  /**
+   * Create a streaming writer
+   * @param sink - WritableStream, Node.js Writable, or chunk callback
+   * @param options - Writer options; `compress` is not used, compressed
+   *                  output always goes through CompressionStream
+   */
+  constructor(sink: OutputSink, options: WriterOptions = {}) {
+    super(options);
+    this._target = chunkTarget(sink);
+  }
+
+  override open(type: FileType = FileType.TextGTO, format: TextFormatOptions = {}): boolean {
+    super.open(type, format);
+    if (type === FileType.CompressedGTO) {
+      this._target = gzipTarget(this._target);
+    }
+    this._headersWritten = false;
+    this._paths = [];
+    this._nextData = 0;
+    this._nextComponent = 0;
+    this._nextProperty = 0;
+    if (!this._binaryMode) {
+      this._output = `GTOa (${this._version})\n\n`;
+    }
+    return true;
+  }
+
+  override property(name: string, type: DataType, size: number, width: number = 1, interpretation: string = '', dims?: number[]): void {
+    if (!this._binaryMode) {
+      super.property(name, type, size, width, interpretation, dims);
+      return;
+    }
+    this._checkPropertyState(name);
+    const shape = this._checkShape(name, width, dims);
+    this._paths.push(this._propertyPath(name));
+    this._propertyInfos.push({
+      nameId: this.intern(name),
+      interpretationId: interpretation ? this.intern(interpretation) : 0,
+      type,
+      size,
+      width,
+      dims: padDimensions(shape)
+    });
+  }
+
+  override propertyWithData(
+    name: string,
+    type: DataType,
+    size: number,
+    width: number,
+    interpretation: string,
+    data: DataArray,
+    dims?: number[]
+  ): void {
+    if (!this._binaryMode) {
+      super.propertyWithData(name, type, size, width, interpretation, data, dims);
+      return;
+    }
+    this.property(name, type, size, width, interpretation, dims);
+    const index = this._propertyInfos.length - 1;
+    this._propertyData[index] = this._binaryValues(index, data);
+  }
+
+  /**
+   * Begin the data section
+   * For binary files, writes the headers; every object must have ended.
+   */
+  override beginData(): void {
+    if (!this._binaryMode) {
+      super.beginData();
+      return;
+    }
+    if (this._state !== WriterState.Initial) {
+      throw new Error('All objects must be ended before beginData()');
+    }
+    if (this._headersWritten) {
+      throw new Error('beginData() has already been called');
+    }
+    this._headersWritten = true;
+    const { view } = this._buildBinaryHeaders(0);
+    this._enqueue(new Uint8Array(view.buffer));
+    this._writeReadyData();
+  }
+
+  /**
+   * Write the data of the next property declared without data
+   * @param data - The property data (size * width values)
+   */
+  override propertyData(data: DataArray): void {
+    if (!this._binaryMode) {
+      super.propertyData(data);
+      return;
+    }
+    if (!this._headersWritten) {
+      throw new Error('beginData() must be called before propertyData()');
+    }
+    while (this._nextData < this._propertyInfos.length && this._propertyData[this._nextData] !== undefined) {
+      this._nextData++;
+    }
+    if (this._nextData >= this._propertyInfos.length) {
+      throw new Error('No more properties to write data for');
+    }
+    this._propertyData[this._nextData] = this._binaryValues(this._nextData, data);
+    this._nextData++;
+    this._writeReadyData();
+  }
+
+  override close(): string | ArrayBuffer {
+    throw new Error('StreamWriter output goes to its sink; call end() instead');
+  }
+
+  override closeAsync(): Promise<string | ArrayBuffer> {
+    throw new Error('StreamWriter output goes to its sink; call end() instead');
+  }
+
+  /**
+   * Wait until the sink has accepted every chunk written so far
+   * @throws The sink's error if a write failed
+   */
+  async flush(): Promise<void> {
+    await this._queue;
+    if (this._error) {
+      throw this._error;
+    }
+  }
+
+  /**
+   * Finish the file and close the sink
+   * Binary headers are written first if beginData() was not called.
+   * @throws If property data is missing or the sink failed
+   */
+  async end(): Promise<void> {
+    if (this._binaryMode) {
+      if (!this._headersWritten) {
+        this.beginData();
+      }
+      if (this._nextProperty < this._propertyInfos.length) {
+        const name = this.stringFromId(this._propertyInfos[this._nextProperty].nameId);
+        throw new Error(`Missing data for property '${name}'`);
+      }
+    } else {
+      this._flushText();
+    }
+    this._state = WriterState.Closed;
+    await this.flush();
+    await this._target.close();
+  }
+
+  protected override _writeLine(line: string = ''): void {
+    super._writeLine(line);
+    if (this._output.length >= TEXT_CHUNK_SIZE) {
+      this._flushText();
+    }
+  }
+
+  /**
+   * Queue the buffered text
+   */
+  private _flushText(): void {
+    if (this._output) {
+      this._enqueue(this._encoder.encode(this._output));
+      this._output = '';
+    }
+  }
+
+  /**
+   * Queue a chunk for the sink, behind every chunk queued before it
+   */
+  private _enqueue(chunk: Uint8Array<ArrayBuffer>): void {
+    this._queue = this._queue.then(async () => {
+      if (!this._error) {
+        await this._target.write(chunk);
+      }
+    }).catch(error => {
+      this._error = error;
+    });
+  }
+
+  /**
+   * Check property data and turn it into binary values (string table ids for strings)
+   */
+  private _binaryValues(index: number, data: DataArray): ArrayLike<Value> {
+    const info = this._propertyInfos[index];
+    const name = this.stringFromId(info.nameId);
+    let values = Writer._flatten(data);
+    if (values.length !== info.size * info.width) {
+      throw new Error(`Property '${name}' needs ${info.size * info.width} values but got ${values.length}`);
+    }
+    if (info.type === DataType.String) {
+      values = Array.from(values as ArrayLike<unknown>, value => {
+        if (typeof value !== 'string') {
+          return value as Value;
+        }
+        const id = this.lookup(value);
+        if (id === undefined) {
+          throw new Error(`String '${value}' of property '${name}' must be interned before beginData()`);
+        }
+        return id;
+      });
+    }
+    if (this._options.strict) {
+      this._validateData(this._paths[index], info.type, info.size, info.width, values);
+    }
+    return values;
+  }
+
+  /**
+   * Write the data of every property that is next in file order and has its
+   * data, releasing it afterwards
+   * Transposed components are written once all their properties have data.
+   */
+  private _writeReadyData(): void {
+    const littleEndian = this._littleEndian;
+    while (this._nextComponent < this._componentInfos.length) {
+      const compInfo = this._componentInfos[this._nextComponent];
+      const start = compInfo.propertyStartIdx;
+      const end = start + compInfo.numProperties;
+
+      if (compInfo.flags & HeaderFlags.Transposed) {
+        for (let i = start; i < end; i++) {
+          if (this._propertyData[i] === undefined) {
+            return;
+          }
+        }
+        let bytes = 0;
+        for (let i = start; i < end; i++) {
+          bytes += this._propertyData[i].length * (DataTypeSize[this._propertyInfos[i].type] || 4);
+        }
+        const view = new DataView(new ArrayBuffer(bytes));
+        this._writeTransposedData(view, 0, start, end, littleEndian);
+        this._enqueue(new Uint8Array(view.buffer));
+        this._releaseData(start, end);
+        this._nextProperty = end;
+      } else {
+        for (let i = Math.max(this._nextProperty, start); i < end; i++) {
+          const values = this._propertyData[i];
+          if (values === undefined) {
+            return;
+          }
+          this._enqueue(encodeValues(values, this._propertyInfos[i].type, littleEndian));
+          this._releaseData(i, i + 1);
+          this._nextProperty = i + 1;
+        }
+      }
+      this._nextComponent++;
+    }
+  }
+
+  /**
+   * Drop written property data, keeping a marker that it was supplied
+   */
+  private _releaseData(start: number, end: number): void {
+    for (let i = start; i < end; i++) {
+      this._propertyData[i] = [];
+    }
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Incremental Input Buffers
+ *
+ * Helpers for Reader's streaming mode (beginStream/write/end). Chunks arrive
+ * in arbitrary sizes; these buffers hold just enough of them to hand the
+ * parser a complete unit: a run of bytes for binary files, or one top-level
+ * block of a text file.
+ */
+
+/**
+ * Bytes buffered by stream offset, kept in one growing buffer
+ */
+export class ByteQueue {
+  private _buffer: Uint8Array = new Uint8Array(0);
+  /** Index in _buffer of the first buffered byte */
+  private _begin: number = 0;
+  /** Absolute offset of the first buffered byte */
+  start: number = 0;
+  /** Number of buffered bytes */
+  available: number = 0;
+
+  push(chunk: Uint8Array): void {
+    if (chunk.length === 0) {
+      return;
+    }
+    const needed = this.available + chunk.length;
+    if (this._begin + needed > this._buffer.length) {
+      // Grow by doubling, or move the bytes to the front when that leaves
+      // room enough, so every byte is copied a bounded number of times
+      const buffered = this._buffer.subarray(this._begin, this._begin + this.available);
+      if (needed * 2 > this._buffer.length) {
+        const grown = new Uint8Array(Math.max(needed * 2, 1024));
+        grown.set(buffered);
+        this._buffer = grown;
+      } else {
+        this._buffer.copyWithin(0, this._begin, this._begin + this.available);
+      }
+      this._begin = 0;
+    }
+    this._buffer.set(chunk, this._begin + this.available);
+    this.available = needed;
+  }
+
+  /**
+   * Get the first `length` buffered bytes as one contiguous array
+   * The array is a view, valid until the next push().
+   */
+  peek(length: number): Uint8Array {
+    return this._buffer.subarray(this._begin, this._begin + length);
+  }
+
+  /**
+   * Drop the first `length` buffered bytes
+   */
+  discard(length: number): void {
+    this.start += length;
+    this.available -= length;
+    this._begin = this.available > 0 ? this._begin + length : 0;
+  }
+
+  /**
+   * Drop everything buffered
+   */
+  clear(): void {
+    this.discard(this.available);
+  }
+}
+
+/** A slice of text input and where it starts in the file */
+export interface TextSegment {
+  text: string;
+  line: number;      // 1-based
+  column: number;    // 1-based
+}
+
+/**
+ * Cuts text input into the file header and top-level blocks
+ *
+ * Tracks brace depth while skipping strings and comments, so a segment is
+ * only produced once its closing '}' (or the header's ')') has arrived.
+ */
+export class TextSplitter {
+  private _text: string = '';
+  private _scan: number = 0;
+  private _depth: number = 0;
+  private _quote: string = '';
+  private _escape: boolean = false;
+  private _comment: boolean = false;
+  private _line: number = 1;
+  private _column: number = 1;
+
+  push(text: string): void {
+    this._text += text;
+  }
+
+  /**
+   * Take the "GTOa (version)" header, or null if it has not fully arrived
+   */
+  header(): TextSegment | null {
+    return this._next(')');
+  }
+
+  /**
+   * Take the next complete top-level block, or null if none has fully arrived
+   */
+  block(): TextSegment | null {
+    return this._next('}');
+  }
+
+  /**
+   * Take whatever text is left
+   */
+  rest(): TextSegment {
+    return this._cut(this._text.length);
+  }
+
+  private _next(end: string): TextSegment | null {
+    const text = this._text;
+    for (let i = this._scan; i < text.length; i++) {
+      const ch = text[i];
+      if (this._comment) {
+        if (ch === '\n') this._comment = false;
+      } else if (this._quote) {
+        if (this._escape) {
+          this._escape = false;
+        } else if (ch === '\\') {
+          this._escape = true;
+        } else if (ch === this._quote) {
+          this._quote = '';
+        }
+      } else if (ch === '#') {
+        this._comment = true;
+      } else if (ch === '"' || ch === "'") {
+        this._quote = ch;
+      } else if (ch === '{') {
+        this._depth++;
+      } else if (ch === '}') {
+        // A stray '}' at the top level is cut on its own for the parser to report
+        this._depth = Math.max(0, this._depth - 1);
+        if (end === '}' && this._depth === 0) {
+          return this._cut(i + 1);
+        }
+      } else if (ch === ')' && end === ')' && this._depth === 0) {
+        return this._cut(i + 1);
+      }
+    }
+    this._scan = text.length;
+    return null;
+  }
+
+  private _cut(end: number): TextSegment {
+    const segment: TextSegment = {
+      text: this._text.slice(0, end),
+      line: this._line,
+      column: this._column
+    };
+
+    // Advance the start position past the segment
+    const lastNewline = segment.text.lastIndexOf('\n');
+    if (lastNewline >= 0) {
+      let lines = 0;
+      for (let i = segment.text.indexOf('\n'); i >= 0; i = segment.text.indexOf('\n', i + 1)) {
+        lines++;
+      }
+      this._line += lines;
+      this._column = end - lastNewline;
+    } else {
+      this._column += end;
+    }
+
+    this._text = this._text.slice(end);
+    this._scan = 0;
+    return segment;
+  }
+}
@@ -92,7 +92,8 @@ export class StringTable {
    * @param offset - Starting offset in the view
    * @param numStrings - Number of strings to read
    * @param _littleEndian - Byte order (unused, strings are byte-aligned)
-   * @returns Number of bytes consumed
+   * @returns Number of bytes consumed; past the end of the view if the view
+   *          ends before the last terminator
    */
   readFromBinary(view: DataView, offset: number, numStrings: number, _littleEndian: boolean = true): number {
     this.clear();
@@ -105,6 +106,10 @@ export class StringTable {
       while (endPos < view.byteLength && view.getUint8(endPos) !== 0) {
         endPos++;
       }
+      if (endPos >= view.byteLength) {
+        // Unterminated - report the table as running past the end
+        return view.byteLength + 1 - offset;
+      }
       // Decode the UTF-8 bytes
       const bytes = new Uint8Array(view.buffer, view.byteOffset + pos, endPos - pos);
       const str = decoder.decode(bytes);
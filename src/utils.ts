@@ -2,6 +2,8 @@
  * Utility functions for GTO library
  */
 
+import { DataType } from './constants.js';
+
 /**
  * Convert a 16-bit half-precision float to 32-bit float
  * @param half - 16-bit half-precision float as integer
@@ -43,8 +45,15 @@ export function floatToHalf(float32: number): number {
   const buffer = new ArrayBuffer(4);
   const view = new DataView(buffer);
   view.setFloat32(0, float32, true);
-  const bits = view.getUint32(0, true);
+  return floatBitsToHalf(view.getUint32(0, true));
+}
 
+/**
+ * Convert the bit pattern of a 32-bit float to a 16-bit half-precision float
+ * @param bits - IEEE 754 single-precision bits as an unsigned integer
+ * @returns 16-bit half-precision float as integer
+ */
+export function floatBitsToHalf(bits: number): number {
   const sign = (bits >> 31) & 0x1;
   const exponent = (bits >> 23) & 0xff;
   const mantissa = bits & 0x7fffff;
@@ -153,3 +162,74 @@ export function formatDimensions(dims: number[] | undefined): string {
   }
   return `[${dims.join(',')}]`;
 }
+
+/**
+ * Get the element shape of a multi-dimensional property
+ * Trailing 1s (and 0s, which some writers use for unused dimensions) are
+ * dropped; a shape with fewer than two dimensions is just a width, so
+ * undefined is returned.
+ * @param dims - Dimensions as stored in PropertyInfo (e.g. [4, 4, 1, 1])
+ * @returns Shape (e.g. [4, 4]) or undefined
+ */
+export function elementShape(dims: ArrayLike<number> | undefined): number[] | undefined {
+  if (!dims) return undefined;
+  let length = dims.length;
+  while (length > 0 && dims[length - 1] <= 1) {
+    length--;
+  }
+  return length > 1 ? Array.from(dims).slice(0, length) : undefined;
+}
+
+/**
+ * Get the DataType of a PropertyData type
+ * Accepts type names in either case ('float', 'Float', 'bool') and DataType
+ * values, as SimpleWriter does.
+ * @returns The DataType, or undefined for an unknown name
+ */
+export function propertyDataType(type: string | DataType): DataType | undefined {
+  if (typeof type !== 'string') {
+    return type;
+  }
+  if (type === 'bool') {
+    return DataType.Boolean;
+  }
+  const typeName = type.charAt(0).toUpperCase() + type.slice(1);
+  return DataType[typeName as keyof typeof DataType] as DataType | undefined;
+}
+
+/**
+ * Pad a shape to the four dimensions stored in v4 property headers
+ * @param shape - Shape with up to 4 dimensions
+ * @returns Dimensions padded with 1s
+ */
+export function padDimensions(shape: ArrayLike<number> | undefined): [number, number, number, number] {
+  const dims: [number, number, number, number] = [1, 1, 1, 1];
+  if (shape) {
+    if (shape.length > 4) {
+      throw new Error(`Properties have at most 4 dimensions, got [${Array.from(shape).join(',')}]`);
+    }
+    for (let i = 0; i < shape.length; i++) {
+      dims[i] = shape[i];
+    }
+  }
+  return dims;
+}
+
+/**
+ * Nest the flat values of one element into a shape (outermost dimension first)
+ * @param values - Flat values, as many as the product of the shape
+ * @param shape - Element shape, e.g. [4, 4]
+ * @returns Nested arrays, e.g. 4 rows of 4 values
+ */
+export function nestValues<T>(values: T[], shape: number[]): unknown[] {
+  if (shape.length <= 1) {
+    return values;
+  }
+  const inner = shape.slice(1);
+  const stride = inner.reduce((a, b) => a * b, 1);
+  const nested: unknown[] = [];
+  for (let i = 0; i < shape[0]; i++) {
+    nested.push(nestValues(values.slice(i * stride, (i + 1) * stride), inner));
+  }
+  return nested;
+}
@@ -0,0 +1,364 @@
+/**
+ * Binary File Verification
+ *
+ * Walks the layout of a binary GTO file from the header onward without
+ * decoding any property data, to triage damaged files: where each section
+ * lies, the first byte at which the file contradicts itself, and how much of
+ * it can still be read.
+ *
+ * @example
+ * const report = verifyBinary(readFileSync('shot.gto'));
+ * if (!report.ok) {
+ *   console.log(report.error!.message, `- ${report.salvage.objects.length} objects intact`);
+ * }
+ */
+
+import { GTO_MAGIC, GTO_VERSION, DataType, DataTypeSize, HeaderFlags } from './constants.js';
+import type { ByteOrder } from './constants.js';
+import { GTOParseError, GTOBinaryError, GTOFormatError, ParseErrorCode } from './errors.js';
+import type { ParseDiagnostic, ParseErrorLocation } from './errors.js';
+import { decompress } from './compression.js';
+import type { CompressionFormat } from './compression.js';
+import { detectFormat } from './reader.js';
+import { elementShape } from './utils.js';
+
+/** Sections of a binary file, in file order */
+export type BinarySectionName = 'header' | 'strings' | 'objects' | 'components' | 'properties' | 'data';
+
+/** Where a section lies in a binary file */
+export interface BinarySection {
+  name: BinarySectionName;
+  offset: number;
+  /** Size in bytes implied by the headers (for a truncated string table, the bytes present) */
+  size: number;
+  /** Number of entries: strings, headers, or properties for the data section */
+  count: number;
+  /** Whether the whole section is present in the file */
+  complete: boolean;
+}
+
+/** What can still be read from a damaged file */
+export interface BinarySalvage {
+  /** Length of the consistent part of the file, up to the first inconsistency */
+  bytes: number;
+  /** Names of the objects whose headers and data are all intact */
+  objects: string[];
+  /** Number of properties whose data is intact */
+  properties: number;
+  /** Number of properties the headers declare (0 if the headers are unreadable) */
+  totalProperties: number;
+}
+
+/** Result of verifyBinary() */
+export interface BinaryReport {
+  /** True if the whole file is consistent (warnings aside) */
+  ok: boolean;
+  /** Container the file was decompressed from; offsets refer to the decompressed bytes */
+  compression: CompressionFormat | null;
+  /** Size of the (decompressed) file */
+  fileSize: number;
+  byteOrder: ByteOrder | null;
+  version: number | null;
+  /** File size the headers imply, once all header tables have been read */
+  expectedSize: number | null;
+  /** Sections found, up to the one holding the first inconsistency */
+  sections: BinarySection[];
+  /** The first inconsistency, with its byte offset */
+  error: ParseDiagnostic | null;
+  /** Oddities that do not stop the file being read, such as trailing bytes */
+  warnings: ParseDiagnostic[];
+  salvage: BinarySalvage;
+}
+
+/** Where the data of one property lies */
+interface DataExtent {
+  object: number;
+  component: string;
+  name: string;
+  type: DataType;
+  offset: number;   // First value
+  count: number;    // Number of values
+  stride: number;   // Bytes between elements if transposed, else 0
+  width: number;
+  end: number;      // End of the data (of the whole block if transposed)
+}
+
+/**
+ * Check the layout of a binary GTO file
+ * Gzip and deflate input is decompressed first. Never throws for damaged
+ * input; the problems are described in the report.
+ * @param bytes - File content
+ * @returns Section layout, first inconsistency and salvageable extent
+ */
+export function verifyBinary(bytes: ArrayBuffer | Uint8Array): BinaryReport {
+  let data = bytes instanceof ArrayBuffer ? new Uint8Array(bytes) : bytes;
+  const report: BinaryReport = {
+    ok: false,
+    compression: null,
+    fileSize: data.length,
+    byteOrder: null,
+    version: null,
+    expectedSize: null,
+    sections: [],
+    error: null,
+    warnings: [],
+    salvage: { bytes: 0, objects: [], properties: 0, totalProperties: 0 }
+  };
+  const objectNames: string[] = [];
+  const extents: DataExtent[] = [];
+
+  try {
+    const format = detectFormat(data);
+    if (format === 'gzip' || format === 'deflate') {
+      report.compression = format;
+      try {
+        data = decompress(data, format);
+      } catch (e) {
+        throw new GTOFormatError(ParseErrorCode.Compression, `Decompression failed: ${(e as Error).message}`, { offset: 0 }, { cause: e });
+      }
+      report.fileSize = data.length;
+    }
+    walkLayout(new DataView(data.buffer, data.byteOffset, data.byteLength), report, objectNames, extents);
+    report.ok = true;
+  } catch (e) {
+    if (!(e instanceof GTOParseError)) {
+      throw e;
+    }
+    report.error = e.toDiagnostic();
+  }
+
+  // Everything ending before the first inconsistency is intact
+  const limit = report.error ? report.error.offset ?? 0 : report.fileSize;
+  report.salvage.bytes = limit;
+  if (report.expectedSize !== null) {
+    const broken = new Set<number>();
+    for (const extent of extents) {
+      if (extent.end <= limit) {
+        report.salvage.properties++;
+      } else {
+        broken.add(extent.object);
+      }
+    }
+    report.salvage.objects = objectNames.filter((_, i) => !broken.has(i));
+  }
+  return report;
+}
+
+/**
+ * Walk the header tables and data section, recording each section in the
+ * report and each property's data in `extents`
+ * @throws GTOParseError at the first inconsistency
+ */
+function walkLayout(view: DataView, report: BinaryReport, objectNames: string[], extents: DataExtent[]): void {
+  const fileSize = view.byteLength;
+  const section = (name: BinarySectionName, offset: number, size: number, count: number): BinarySection => {
+    const entry = { name, offset, size, count, complete: offset + size <= fileSize };
+    report.sections.push(entry);
+    return entry;
+  };
+  const fail = (code: ParseErrorCode, reason: string, location: ParseErrorLocation): never => {
+    throw new GTOBinaryError(code, reason, location);
+  };
+  // Number of whole entries of a table that fit in the file
+  const available = (offset: number, entrySize: number): number => Math.max(0, Math.floor((fileSize - offset) / entrySize));
+
+  // File header
+  if (!section('header', 0, 20, 1).complete) {
+    fail(ParseErrorCode.Truncated, `File header needs 20 bytes, ${fileSize} available`, { offset: 0 });
+  }
+  let littleEndian: boolean;
+  if (view.getUint32(0, true) === GTO_MAGIC) {
+    littleEndian = true;
+  } else if (view.getUint32(0, false) === GTO_MAGIC) {
+    littleEndian = false;
+  } else {
+    return fail(ParseErrorCode.InvalidMagic, `Invalid GTO magic number: 0x${view.getUint32(0, true).toString(16)}`, { offset: 0 });
+  }
+  report.byteOrder = littleEndian ? 'little' : 'big';
+  const numStrings = view.getUint32(4, littleEndian);
+  const numObjects = view.getUint32(8, littleEndian);
+  const version = view.getUint32(12, littleEndian);
+  const flags = view.getUint32(16, littleEndian);
+  report.version = version;
+  if (version < 2 || version > GTO_VERSION) {
+    fail(ParseErrorCode.InvalidHeader, `Unsupported GTO version ${version}`, { offset: 12 });
+  }
+
+  // String table - each string ends at a null byte
+  const strings: string[] = [];
+  const decoder = new TextDecoder();
+  let offset = 20;
+  while (strings.length < numStrings) {
+    const end = new Uint8Array(view.buffer, view.byteOffset + offset, fileSize - offset).indexOf(0);
+    if (end < 0) {
+      break;
+    }
+    strings.push(decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset, end)));
+    offset += end + 1;
+  }
+  if (strings.length < numStrings) {
+    section('strings', 20, fileSize - 20, strings.length).complete = false;
+    fail(ParseErrorCode.Truncated, `String table ends after ${strings.length} of ${numStrings} strings`, { offset: fileSize });
+  }
+  section('strings', 20, offset - 20, numStrings);
+
+  const string = (id: number, what: string, at: number, location: ParseErrorLocation): string => {
+    if (id >= numStrings) {
+      fail(ParseErrorCode.InvalidStringId, `${what} string index ${id} out of range (0-${numStrings - 1})`, { ...location, offset: at });
+    }
+    return strings[id];
+  };
+
+  // Object headers
+  const objects = section('objects', offset, numObjects * 20, numObjects);
+  const componentCounts: number[] = [];
+  const objectCount = Math.min(numObjects, available(offset, 20));
+  for (let i = 0; i < objectCount; i++, offset += 20) {
+    const name = string(view.getUint32(offset, littleEndian), 'Object name', offset, {});
+    string(view.getUint32(offset + 4, littleEndian), 'Protocol', offset + 4, { object: name });
+    objectNames.push(name);
+    componentCounts.push(view.getUint32(offset + 12, littleEndian));
+  }
+  if (!objects.complete) {
+    fail(ParseErrorCode.Truncated, `Object header ${objectCount} of ${numObjects} is incomplete`, { offset });
+  }
+
+  // Component headers, grouped by object
+  const componentSize = version >= 4 ? 20 : 16;
+  const numComponents = componentCounts.reduce((sum, count) => sum + count, 0);
+  const components = section('components', offset, numComponents * componentSize, numComponents);
+  const componentCount = Math.min(numComponents, available(offset, componentSize));
+  const componentHeaders: Array<{ object: number; name: string; numProperties: number; transposed: boolean }> = [];
+  for (let o = 0; o < numObjects && componentHeaders.length < componentCount; o++) {
+    let level = -1;
+    for (let c = 0; c < componentCounts[o] && componentHeaders.length < componentCount; c++, offset += componentSize) {
+      const location = { object: objectNames[o] };
+      const name = string(view.getUint32(offset, littleEndian), 'Component name', offset, location);
+      string(view.getUint32(offset + 4, littleEndian), 'Interpretation', offset + 4, { ...location, component: name });
+      const childLevel = version >= 4 ? view.getUint32(offset + 16, littleEndian) : 0;
+      if (childLevel > level + 1) {
+        fail(
+          ParseErrorCode.InvalidHeader,
+          `Component nesting level ${childLevel} does not follow a component at level ${childLevel - 1}`,
+          { ...location, component: name, offset: offset + 16 }
+        );
+      }
+      level = childLevel;
+      componentHeaders.push({
+        object: o,
+        name,
+        numProperties: view.getUint32(offset + 8, littleEndian),
+        transposed: ((flags | view.getUint32(offset + 12, littleEndian)) & HeaderFlags.Transposed) !== 0
+      });
+    }
+  }
+  if (!components.complete) {
+    fail(ParseErrorCode.Truncated, `Component header ${componentCount} of ${numComponents} is incomplete`, { offset });
+  }
+
+  // Property headers, laying out each property's data as they are read
+  const propertySize = version >= 4 ? 36 : 20;
+  const numProperties = componentHeaders.reduce((sum, comp) => sum + comp.numProperties, 0);
+  report.salvage.totalProperties = numProperties;
+  section('properties', offset, numProperties * propertySize, numProperties);
+  const propertyCount = Math.min(numProperties, available(offset, propertySize));
+  const dataOffset = offset + numProperties * propertySize;
+  let dataEnd = dataOffset;
+  let read = 0;
+  for (const comp of componentHeaders) {
+    const first = extents.length;
+    let stride = 0;        // Bytes per element of a transposed component
+    let elements = -1;     // Its number of elements
+    for (let p = 0; p < comp.numProperties; p++, offset += propertySize) {
+      if (read++ === propertyCount) {
+        fail(ParseErrorCode.Truncated, `Property header ${propertyCount} of ${numProperties} is incomplete`, { offset });
+      }
+      const location = { object: objectNames[comp.object], component: comp.name };
+      const name = string(view.getUint32(offset, littleEndian), 'Property name', offset, location);
+      string(view.getUint32(offset + 4, littleEndian), 'Interpretation', offset + 4, { ...location, property: name });
+      const type = view.getUint8(offset + 8) as DataType;
+      if (!(type in DataTypeSize)) {
+        fail(ParseErrorCode.UnknownType, `Unknown data type: ${type}`, { ...location, property: name, offset: offset + 8 });
+      }
+      const size = view.getUint32(offset + 12, littleEndian);
+      const width = view.getUint32(offset + 16, littleEndian);
+      if (version >= 4) {
+        const dims = [0, 1, 2, 3].map(i => view.getUint32(offset + 20 + i * 4, littleEndian));
+        const shape = elementShape(dims);
+        if (shape && shape.reduce((a, b) => a * b, 1) !== width) {
+          fail(
+            ParseErrorCode.SizeMismatch,
+            `Dimensions [${shape.join(',')}] do not match width ${width}`,
+            { ...location, property: name, offset: offset + 20 }
+          );
+        }
+      }
+      if (comp.transposed && elements >= 0 && size !== elements) {
+        fail(
+          ParseErrorCode.SizeMismatch,
+          `Properties of a transposed component must have the same size (${elements} vs ${size})`,
+          { ...location, property: name, offset: offset + 12 }
+        );
+      }
+      elements = size;
+
+      const typeSize = DataTypeSize[type] || 4;
+      const bytes = size * width * typeSize;
+      extents.push({
+        object: comp.object,
+        component: comp.name,
+        name,
+        type,
+        offset: comp.transposed ? dataEnd + stride : dataEnd,
+        count: size * width,
+        stride: 0,
+        width,
+        end: dataEnd + bytes
+      });
+      if (comp.transposed) {
+        stride += width * typeSize;
+      } else {
+        dataEnd += bytes;
+      }
+    }
+    // A transposed component stores its data element by element
+    if (comp.transposed && elements >= 0) {
+      const blockEnd = dataEnd + elements * stride;
+      for (let i = first; i < extents.length; i++) {
+        extents[i].stride = stride;
+        extents[i].end = blockEnd;
+      }
+      dataEnd = blockEnd;
+    }
+  }
+
+  // Property data
+  report.expectedSize = dataEnd;
+  section('data', dataOffset, dataEnd - dataOffset, numProperties);
+  for (const extent of extents) {
+    const location = { object: objectNames[extent.object], component: extent.component, property: extent.name };
+    if (extent.end > fileSize) {
+      fail(
+        ParseErrorCode.Truncated,
+        `Data of property '${extent.name}' ends at ${extent.end}, past the end of the file`,
+        { ...location, offset: Math.min(extent.offset, fileSize) }
+      );
+    }
+    if (extent.type === DataType.String) {
+      for (let k = 0; k < extent.count; k++) {
+        const at = extent.stride
+          ? extent.offset + Math.floor(k / extent.width) * extent.stride + (k % extent.width) * 4
+          : extent.offset + k * 4;
+        string(view.getUint32(at, littleEndian), 'String value', at, location);
+      }
+    }
+  }
+
+  if (fileSize > dataEnd) {
+    report.warnings.push(new GTOBinaryError(
+      ParseErrorCode.SizeMismatch,
+      `${fileSize - dataEnd} bytes follow the property data; the counts in the headers may be wrong`,
+      { offset: dataEnd }
+    ).toDiagnostic('warning'));
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Worker Entry Point
+ *
+ * The script WorkerPool and parseInWorker() start workers with. Runs each
+ * parse request it receives and posts progress and the outcome back; works
+ * as a Web Worker (module type) and as a Node.js worker_threads worker.
+ */
+
+import { importWorkerThreads, runParseRequest } from './worker.js';
+import type { ParseRequest, ParseResponse } from './worker.js';
+
+/** The parts of a worker's global scope used here */
+interface WorkerScope {
+  postMessage(message: unknown, transfer: Transferable[]): void;
+  addEventListener(type: 'message', listener: (event: { data: ParseRequest }) => void): void;
+}
+
+/** The parts of worker_threads' parentPort used here */
+interface ParentPort {
+  postMessage(message: unknown, transferList: ArrayBuffer[]): void;
+  on(event: 'message', listener: (request: ParseRequest) => void): void;
+}
+
+const scope = (globalThis as { WorkerGlobalScope?: unknown }).WorkerGlobalScope !== undefined
+  ? globalThis as unknown as WorkerScope
+  : null;
+
+if (scope) {
+  scope.addEventListener('message', event => {
+    void runParseRequest(event.data, (message: ParseResponse, transfer) => scope.postMessage(message, transfer));
+  });
+} else {
+  // Not awaited, as bundlers may emit workers as scripts
+  void importWorkerThreads<{ parentPort: ParentPort | null }>().then(({ parentPort }) => {
+    parentPort?.on('message', request => {
+      void runParseRequest(request, (message, transfer) => parentPort.postMessage(message, transfer));
+    });
+  });
+}
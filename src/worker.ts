@@ -0,0 +1,488 @@
+/**
+ * Parsing in Workers
+ *
+ * Runs SimpleReader in a Web Worker or a Node.js worker_threads worker so
+ * large files do not block the calling thread. Input buffers are transferred
+ * to the worker rather than copied, and typed array results are transferred
+ * back. Progress is reported as the worker feeds the file through the
+ * incremental reader chunk by chunk.
+ *
+ * @example
+ * const { result } = await parseInWorker(buffer, {
+ *   name: file.name,
+ *   onProgress: ({ loaded, total }) => bar.value = loaded / total
+ * });
+ *
+ * @example
+ * const pool = new WorkerPool({ size: 4 });
+ * const parsed = await Promise.all(files.map(bytes => pool.parse(bytes)));
+ * await pool.close();
+ */
+
+import { SimpleReader } from './reader.js';
+import type { ReaderOptions } from './reader.js';
+import {
+  ParseErrorCode,
+  GTOParseError,
+  GTOSyntaxError,
+  GTOBinaryError,
+  GTOFormatError
+} from './errors.js';
+import type { ParseDiagnostic } from './errors.js';
+import type { GTOData } from './dto.js';
+
+/** Reader options that can be sent to a worker (functions cannot be) */
+export type WorkerReaderOptions = Omit<ReaderOptions, 'decompress' | 'throwOnError'>;
+
+/** How far a parse in a worker has got */
+export interface ParseProgress {
+  /** Bytes parsed so far */
+  loaded: number;
+  /** Size of the file in bytes (text is counted as UTF-8) */
+  total: number;
+}
+
+/** Options for one parse in a worker */
+export interface WorkerParseOptions extends WorkerReaderOptions {
+  /** Filename for error messages */
+  name?: string;
+  /** Called as the worker works through the file */
+  onProgress?: (progress: ParseProgress) => void;
+  /**
+   * Hand the input's ArrayBuffer to the worker instead of copying it
+   * (default true). The caller's buffer is detached - left empty - once the
+   * parse starts; pass false to keep using it. Views over part of a buffer
+   * are always copied.
+   */
+  transfer?: boolean;
+}
+
+/** What a parse in a worker produces */
+export interface WorkerParseResult {
+  result: GTOData;
+  /** Problems recovered from in lenient mode */
+  diagnostics: ParseDiagnostic[];
+}
+
+/** Minimal interface of a Web Worker */
+export interface WebWorkerLike {
+  postMessage(message: unknown, transfer: Transferable[]): void;
+  addEventListener(type: 'message' | 'messageerror' | 'error', listener: (event: { data?: unknown; message?: string }) => void): void;
+  terminate(): void;
+}
+
+/** Minimal interface of a Node.js worker_threads Worker */
+export interface NodeWorkerLike {
+  postMessage(message: unknown, transferList: ArrayBuffer[]): void;
+  on(event: 'message' | 'messageerror' | 'error' | 'exit', listener: (value: unknown) => void): unknown;
+  terminate(): unknown;
+}
+
+/** A worker to parse in */
+export type WorkerLike = WebWorkerLike | NodeWorkerLike;
+
+/** Options for a WorkerPool */
+export interface WorkerPoolOptions {
+  /** Most workers to run at once (default: the number of CPU cores, or 4) */
+  size?: number;
+  /** Bytes fed to the reader between progress reports (default 1 MiB) */
+  chunkSize?: number;
+  /**
+   * Start a worker running worker-script.js, for bundlers that need the
+   * worker URL spelled out. By default a Web Worker is used where the
+   * platform has one, and a worker_threads worker otherwise.
+   */
+  createWorker?: () => WorkerLike | Promise<WorkerLike>;
+}
+
+/**
+ * A parse sent to a worker
+ * @internal
+ */
+export interface ParseRequest {
+  id: number;
+  content: string | ArrayBuffer | Uint8Array;
+  name: string;
+  options: WorkerReaderOptions;
+  chunkSize: number;
+}
+
+/** A parse error as sent between threads */
+interface SerializedError extends ParseDiagnostic {
+  name: string;
+}
+
+/**
+ * A message from a worker about a parse
+ * @internal
+ */
+export type ParseResponse =
+  | { id: number; type: 'progress'; loaded: number; total: number }
+  | { id: number; type: 'result'; result: GTOData; diagnostics: ParseDiagnostic[] }
+  | { id: number; type: 'error'; error: SerializedError };
+
+/** Parse waiting for, or running in, a worker */
+interface Job {
+  request: ParseRequest;
+  transfer: ArrayBuffer[];
+  onProgress?: (progress: ParseProgress) => void;
+  resolve: (result: WorkerParseResult) => void;
+  reject: (error: unknown) => void;
+}
+
+/** Pool member and the job it is running */
+interface PoolWorker {
+  worker: WorkerLike;
+  job: Job | null;
+}
+
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+/** Parse error classes by name, to rebuild errors sent from a worker */
+const ERROR_CLASSES: Record<string, typeof GTOParseError> = {
+  GTOSyntaxError,
+  GTOBinaryError,
+  GTOFormatError
+};
+
+/**
+ * Parse a GTO file in a worker
+ * Starts a worker for this one file and stops it when done; use a WorkerPool
+ * to parse many files.
+ * @param content - File content: text, binary or gzip-compressed
+ * @param options - Reader options, progress callback, and worker options
+ * @returns Promise resolving to the parsed file
+ * @throws GTOParseError (as a rejection) if the file cannot be parsed
+ */
+export async function parseInWorker(
+  content: string | ArrayBuffer | Uint8Array,
+  options: WorkerParseOptions & Omit<WorkerPoolOptions, 'size'> = {}
+): Promise<WorkerParseResult> {
+  const { chunkSize, createWorker, ...parseOptions } = options;
+  const pool = new WorkerPool({ size: 1, chunkSize, createWorker });
+  try {
+    return await pool.parse(content, parseOptions);
+  } finally {
+    await pool.close();
+  }
+}
+
+/**
+ * Pool of workers that parse files concurrently
+ *
+ * Workers are started as parses are queued, up to `size`, and reused for
+ * later parses. Call close() when done: idle workers keep a Node.js process
+ * alive.
+ */
+export class WorkerPool {
+  private _size: number;
+  private _chunkSize: number;
+  private _createWorker: () => WorkerLike | Promise<WorkerLike>;
+  private _workers: PoolWorker[] = [];
+  // Workers being started
+  private _starting: number = 0;
+  private _queue: Job[] = [];
+  private _nextId: number = 1;
+  private _closed: boolean = false;
+
+  /**
+   * Create a worker pool
+   * @param options - Pool size, progress granularity and worker factory
+   */
+  constructor(options: WorkerPoolOptions = {}) {
+    this._size = Math.max(1, options.size ?? defaultPoolSize());
+    this._chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    this._createWorker = options.createWorker ?? createDefaultWorker;
+  }
+
+  /**
+   * Most workers run at once
+   */
+  get size(): number {
+    return this._size;
+  }
+
+  /**
+   * Number of parses queued or running
+   */
+  get pending(): number {
+    return this._queue.length + this._workers.filter(member => member.job).length;
+  }
+
+  /**
+   * Parse a GTO file in the next free worker
+   * @param content - File content: text, binary or gzip-compressed
+   * @param options - Reader options and progress callback
+   * @returns Promise resolving to the parsed file
+   * @throws GTOParseError (as a rejection) if the file cannot be parsed
+   */
+  parse(content: string | ArrayBuffer | Uint8Array, options: WorkerParseOptions = {}): Promise<WorkerParseResult> {
+    if (this._closed) {
+      return Promise.reject(new Error('WorkerPool is closed'));
+    }
+    const { name = '<worker>', onProgress, transfer = true, ...readerOptions } = options;
+    // A view over part of a buffer (such as a pooled Node.js Buffer) is copied
+    const buffer = typeof content === 'string' ? null
+      : content instanceof ArrayBuffer ? content
+      : content.byteOffset === 0 && content.byteLength === content.buffer.byteLength ? content.buffer : null;
+
+    return new Promise<WorkerParseResult>((resolve, reject) => {
+      this._queue.push({
+        request: { id: this._nextId++, content, name, options: readerOptions, chunkSize: this._chunkSize },
+        transfer: transfer && buffer instanceof ArrayBuffer ? [buffer] : [],
+        onProgress,
+        resolve,
+        reject
+      });
+      this._dispatch();
+    });
+  }
+
+  /**
+   * Stop all workers
+   * Parses still queued or running are rejected.
+   */
+  async close(): Promise<void> {
+    this._closed = true;
+    const error = new Error('WorkerPool was closed');
+    for (const job of this._queue.splice(0)) {
+      job.reject(error);
+    }
+    const workers = this._workers.splice(0);
+    for (const member of workers) {
+      member.job?.reject(error);
+    }
+    await Promise.all(workers.map(member => member.worker.terminate()));
+  }
+
+  /**
+   * Start queued jobs on idle workers, starting workers as needed
+   */
+  private _dispatch(): void {
+    for (const member of this._workers) {
+      if (this._queue.length === 0) {
+        return;
+      }
+      if (!member.job) {
+        this._run(member, this._queue.shift()!);
+      }
+    }
+    while (this._queue.length > this._starting && this._workers.length + this._starting < this._size) {
+      this._start();
+    }
+  }
+
+  /**
+   * Start a worker and give it the next queued job
+   */
+  private _start(): void {
+    this._starting++;
+    Promise.resolve()
+      .then(() => this._createWorker())
+      .then(worker => {
+        this._starting--;
+        if (this._closed) {
+          void worker.terminate();
+          return;
+        }
+        const member: PoolWorker = { worker, job: null };
+        listen(worker,
+          message => this._receive(member, message as ParseResponse),
+          error => this._crash(member, error));
+        this._workers.push(member);
+        this._dispatch();
+      }, error => {
+        // Without a worker the queued jobs can never run
+        this._starting--;
+        if (this._workers.length + this._starting === 0) {
+          for (const job of this._queue.splice(0)) {
+            job.reject(error);
+          }
+        }
+      });
+  }
+
+  /**
+   * Send a job to a worker
+   */
+  private _run(member: PoolWorker, job: Job): void {
+    member.job = job;
+    try {
+      member.worker.postMessage(job.request, job.transfer);
+    } catch (e) {
+      member.job = null;
+      job.reject(e);
+      this._dispatch();
+    }
+  }
+
+  /**
+   * Handle a message from a worker about its job
+   */
+  private _receive(member: PoolWorker, message: ParseResponse): void {
+    const job = member.job;
+    if (!job || message.id !== job.request.id) {
+      return;
+    }
+    switch (message.type) {
+      case 'progress':
+        job.onProgress?.({ loaded: message.loaded, total: message.total });
+        return;
+      case 'result':
+        job.resolve({ result: message.result, diagnostics: message.diagnostics });
+        break;
+      case 'error':
+        job.reject(deserializeError(message.error));
+        break;
+    }
+    member.job = null;
+    this._dispatch();
+  }
+
+  /**
+   * Fail the job of a worker that died, and replace the worker
+   */
+  private _crash(member: PoolWorker, error: unknown): void {
+    const index = this._workers.indexOf(member);
+    if (index === -1) {
+      return;
+    }
+    this._workers.splice(index, 1);
+    void member.worker.terminate();
+    const job = member.job;
+    member.job = null;
+    if (job) {
+      const reason = error instanceof Error ? error.message : (error as { message?: string })?.message ?? String(error);
+      job.reject(new GTOParseError(ParseErrorCode.Internal, `Worker failed: ${reason}`, { fileName: job.request.name }, { cause: error }));
+    }
+    this._dispatch();
+  }
+}
+
+/**
+ * Run a parse request inside a worker, posting progress and the outcome
+ * @param request - The parse to run
+ * @param reply - Posts a message back to the pool
+ * @internal
+ */
+export async function runParseRequest(
+  request: ParseRequest,
+  reply: (message: ParseResponse, transfer: ArrayBuffer[]) => void
+): Promise<void> {
+  const { id, content, name, options, chunkSize } = request;
+  const reader = new SimpleReader({ ...options, throwOnError: true });
+  try {
+    // Feed bytes so chunks never split a character
+    const bytes = typeof content === 'string'
+      ? new TextEncoder().encode(content)
+      : content instanceof ArrayBuffer ? new Uint8Array(content) : content;
+    const total = bytes.length;
+
+    reader.beginStream(name);
+    for (let offset = 0; offset < total; offset += chunkSize) {
+      await reader.write(bytes.subarray(offset, offset + chunkSize));
+      reply({ id, type: 'progress', loaded: Math.min(offset + chunkSize, total), total }, []);
+    }
+    await reader.end();
+
+    reply({ id, type: 'result', result: reader.result, diagnostics: reader.diagnostics }, resultBuffers(reader.result));
+  } catch (e) {
+    const error = e instanceof GTOParseError
+      ? e
+      : new GTOParseError(ParseErrorCode.Internal, e instanceof Error ? e.message : String(e), { fileName: name });
+    reply({ id, type: 'error', error: { ...error.toDiagnostic(), name: error.name } }, []);
+  }
+}
+
+/**
+ * Buffers of the typed arrays in a result, to transfer rather than copy
+ */
+function resultBuffers(result: GTOData): ArrayBuffer[] {
+  const buffers = new Set<ArrayBuffer>();
+  const visit = (components: GTOData['objects'][number]['components']): void => {
+    for (const component of Object.values(components)) {
+      for (const property of Object.values(component.properties)) {
+        if (ArrayBuffer.isView(property.data) && property.data.buffer instanceof ArrayBuffer) {
+          buffers.add(property.data.buffer);
+        }
+      }
+      if (component.components) {
+        visit(component.components);
+      }
+    }
+  };
+  for (const object of result.objects) {
+    visit(object.components);
+  }
+  return [...buffers];
+}
+
+/**
+ * Rebuild a parse error sent from a worker
+ */
+function deserializeError(error: SerializedError): GTOParseError {
+  const ErrorClass = ERROR_CLASSES[error.name] ?? GTOParseError;
+  return new ErrorClass(error.code, error.reason, error);
+}
+
+/**
+ * Whether a worker has the worker_threads interface
+ */
+function isNodeWorker(worker: WorkerLike): worker is NodeWorkerLike {
+  return typeof (worker as NodeWorkerLike).on === 'function';
+}
+
+/**
+ * Subscribe to a worker's messages and failures
+ * A message that cannot be deserialized fails the worker, as does a Node.js
+ * worker exiting: process.exit() in a worker emits no error event.
+ */
+function listen(worker: WorkerLike, onMessage: (message: unknown) => void, onError: (error: unknown) => void): void {
+  const onMessageError = () => onError(new Error('Message from worker could not be deserialized'));
+  if (isNodeWorker(worker)) {
+    worker.on('message', onMessage);
+    worker.on('messageerror', onMessageError);
+    worker.on('error', onError);
+    worker.on('exit', code => onError(new Error(`Worker exited with code ${code}`)));
+  } else {
+    worker.addEventListener('message', event => onMessage(event.data));
+    worker.addEventListener('messageerror', onMessageError);
+    worker.addEventListener('error', onError);
+  }
+}
+
+/**
+ * Default pool size: one worker per CPU core
+ */
+function defaultPoolSize(): number {
+  return (globalThis as { navigator?: { hardwareConcurrency?: number } }).navigator?.hardwareConcurrency ?? 4;
+}
+
+/**
+ * Load node:worker_threads
+ * Not a static import, so bundles for browsers do not pull it in.
+ * @internal
+ */
+export function importWorkerThreads<T>(): Promise<T> {
+  const specifier = 'node:worker_threads';
+  return import(/* @vite-ignore */ specifier) as Promise<T>;
+}
+
+/**
+ * Start a worker running worker-script.js: a Web Worker where the platform
+ * has one, a worker_threads worker otherwise
+ */
+async function createDefaultWorker(): Promise<WorkerLike> {
+  type WorkerConstructor = new (url: URL | string, options: { type: 'module' }) => WorkerLike;
+  // worker_threads' Worker goes by the same name, so bundlers see a single
+  // worker script to emit for both
+  let Worker = (globalThis as { Worker?: WorkerConstructor }).Worker;
+  if (!Worker) {
+    const { Worker: NodeWorker } = await importWorkerThreads<{ Worker: new (url: URL) => NodeWorkerLike }>();
+    // worker_threads takes URL objects but not URL strings, which bundlers pass
+    Worker = function (url: URL | string) {
+      return new NodeWorker(new URL(url));
+    } as unknown as WorkerConstructor;
+  }
+  return new Worker(new URL('./worker-script.js', import.meta.url), { type: 'module' });
+}
@@ -11,16 +11,89 @@ import {
   DataTypeSize,
   GTO_MAGIC,
   GTO_VERSION,
-  FileType
+  FileType,
+  HeaderFlags
 } from './constants.js';
+import type { ByteOrder } from './constants.js';
 import { StringTable } from './string-table.js';
-import { floatToHalf } from './utils.js';
-import type { GTOData, ComponentData, PropertyData } from './dto.js';
+import { floatToHalf, halfToFloat, isLittleEndian, elementShape, padDimensions, formatDimensions, propertyDataType } from './utils.js';
+import { encodeValues } from './binary-data.js';
+import { gzip } from './compression.js';
+import { canonicalize, canonicalStrings } from './canonical.js';
+import type { Compressor } from './compression.js';
+import type { GTOData, ComponentData, PropertyData, PropertyTypedArray } from './dto.js';
+
+/** Options for Writer */
+export interface WriterOptions {
+  /**
+   * Compress FileType.CompressedGTO output, replacing the built-in gzip
+   * compressor (for example with Node's zlib.gzipSync)
+   */
+  compress?: Compressor;
+  /**
+   * Check property data against its declaration and data type, throwing on
+   * a wrong value count, out-of-range values or unknown string ids instead
+   * of writing a corrupt file
+   */
+  strict?: boolean;
+  /** Byte order of binary output: 'native' uses the host's (default 'little') */
+  byteOrder?: ByteOrder | 'native';
+  /**
+   * GTO format version to write (default 4). Versions 2 and 3 have no
+   * nested components or multi-dimensional properties.
+   */
+  version?: number;
+}
+
+/** Layout of text output */
+export interface TextFormatOptions {
+  /** Indentation of each nesting level (default four spaces) */
+  indent?: string;
+  /**
+   * Values per line of array data; elements are never split across lines.
+   * By default scalar arrays stay on one line, and arrays of more than four
+   * elements put each element on its own line.
+   */
+  maxValuesPerLine?: number;
+  /** Significant digits of float, double and half values */
+  floatPrecision?: number;
+  /**
+   * Write the shortest decimal that reads back as the same value of the
+   * property's type, e.g. 0.1 rather than 0.10000000149011612 for a float
+   * (ignored when floatPrecision is set)
+   */
+  shortestFloats?: boolean;
+  /** Bracket single values: `int count = [ 1 ]` rather than `int count = 1` */
+  bracketSingleValues?: boolean;
+  /** Declare the number of elements: `float[3][2] position` */
+  explicitSize?: boolean;
+}
+
+/** Value range of integer types (Short and Byte are unsigned) */
+const INTEGER_RANGE: Partial<Record<DataType, [number, number]>> = {
+  [DataType.Int]: [-0x80000000, 0x7fffffff],
+  [DataType.Short]: [0, 0xffff],
+  [DataType.Byte]: [0, 0xff]
+};
+
+/** Largest finite value of floating-point types */
+const FLOAT_MAX: Partial<Record<DataType, number>> = {
+  [DataType.Half]: 65504,
+  [DataType.Float]: 3.4028234663852886e38,
+  [DataType.Double]: Number.MAX_VALUE
+};
+
+/** Significant digits that always round-trip, by floating-point type */
+const MAX_DIGITS: Partial<Record<DataType, number>> = {
+  [DataType.Half]: 5,
+  [DataType.Float]: 9,
+  [DataType.Double]: 17
+};
 
 /**
  * Writer states
  */
-enum WriterState {
+export enum WriterState {
   Initial = 0,
   Object = 1,
   Component = 2,
@@ -37,7 +110,7 @@ interface BinaryObjectInfo {
 }
 
 /** Binary component info for assembly */
-interface BinaryComponentInfo {
+export interface BinaryComponentInfo {
   nameId: number;
   interpretationId: number;
   numProperties: number;
@@ -47,7 +120,7 @@ interface BinaryComponentInfo {
 }
 
 /** Binary property info for assembly */
-interface BinaryPropertyInfo {
+export interface BinaryPropertyInfo {
   nameId: number;
   interpretationId: number;
   type: DataType;
@@ -56,16 +129,28 @@ interface BinaryPropertyInfo {
   dims: [number, number, number, number];
 }
 
+/** A component that has been begun but not ended */
+interface OpenComponent {
+  name: string;
+  index: number;          // Index into the binary component infos (binary mode)
+  hasChildren: boolean;   // A nested component has been begun inside it
+}
+
 /** Pending property for two-phase API */
 interface PendingProperty {
   name: string;
+  path: string;           // Object, component and property, for error messages
   type: DataType;
   size: number;
   width: number;
   interpretation: string;
+  dims?: number[];
 }
 
-type DataArray = number[] | string[] | boolean[] | ArrayLike<number>;
+/** Property value: bigint keeps int64 data beyond 2^53 exact */
+export type Value = number | bigint;
+
+export type DataArray = Value[] | string[] | boolean[] | ArrayLike<number> | BigInt64Array;
 
 /**
  * GTO Text Format Writer
@@ -82,24 +167,41 @@ type DataArray = number[] | string[] | boolean[] | ArrayLike<number>;
  * - Phase 2: beginData/propertyData/endData
  */
 export class Writer {
+  protected _options: WriterOptions;
   private _stringTable: StringTable = new StringTable();
-  private _state: WriterState = WriterState.Initial;
-  private _output: string = '';
+  protected _state: WriterState = WriterState.Initial;
+  protected _output: string = '';
   private _indent: number = 0;
-  private _version: number = GTO_VERSION;
-  private _binaryMode: boolean = false;
-  private _fileType: FileType = FileType.TextGTO;
+  private _objectName: string = '';
+  private _format: TextFormatOptions = {};
+  protected _version: number = GTO_VERSION;
+  protected _binaryMode: boolean = false;
+  protected _fileType: FileType = FileType.TextGTO;
   // Binary mode storage
   private _objectInfos: BinaryObjectInfo[] = [];
-  private _componentInfos: BinaryComponentInfo[] = [];
-  private _propertyInfos: BinaryPropertyInfo[] = [];
-  private _propertyData: number[][] = [];
+  protected _componentInfos: BinaryComponentInfo[] = [];
+  protected _propertyInfos: BinaryPropertyInfo[] = [];
+  protected _propertyData: ArrayLike<Value>[] = [];
   private _currentObjectIdx: number = -1;
-  private _currentComponentIdx: number = -1;
+  // Open components, outermost first (nested components, v4)
+  private _componentStack: OpenComponent[] = [];
   // Two-phase API storage
   private _pendingProperties: PendingProperty[] = [];
   private _propertyIndex: number = 0;
 
+  constructor(options: WriterOptions = {}) {
+    const { byteOrder } = options;
+    if (byteOrder !== undefined && byteOrder !== 'little' && byteOrder !== 'big' && byteOrder !== 'native') {
+      throw new Error(`Unknown byte order: ${byteOrder}`);
+    }
+    const { version = GTO_VERSION } = options;
+    if (!Number.isInteger(version) || version < 2 || version > GTO_VERSION) {
+      throw new Error(`Unsupported GTO version: ${version} (expected 2 to ${GTO_VERSION})`);
+    }
+    this._options = options;
+    this._version = version;
+  }
+
   /**
    * Intern a string into the string table
    * @param str - String or array of strings to intern
@@ -132,20 +234,22 @@ export class Writer {
 
   /**
    * Open/initialize the writer
-   * @param type - File type (TextGTO or BinaryGTO)
+   * @param type - File type (TextGTO, BinaryGTO, or CompressedGTO for gzip-compressed binary)
+   * @param format - Layout of text output
    */
-  open(type: FileType = FileType.TextGTO): boolean {
+  open(type: FileType = FileType.TextGTO, format: TextFormatOptions = {}): boolean {
     this._fileType = type;
+    this._format = format;
     this._state = WriterState.Initial;
+    this._componentStack = [];
 
-    if (type === FileType.BinaryGTO) {
+    if (type === FileType.BinaryGTO || type === FileType.CompressedGTO) {
       this._binaryMode = true;
       this._objectInfos = [];
       this._componentInfos = [];
       this._propertyInfos = [];
       this._propertyData = [];
       this._currentObjectIdx = -1;
-      this._currentComponentIdx = -1;
     } else {
       this._binaryMode = false;
       this._output = '';
@@ -156,16 +260,47 @@ export class Writer {
 
   /**
    * Close the writer and finalize output
+   * Compressed files are gzipped synchronously with the `compress` option or
+   * the built-in compressor.
    * @returns GTO text content or binary ArrayBuffer
    */
   close(): string | ArrayBuffer {
     this._state = WriterState.Closed;
     if (this._binaryMode) {
-      return this._buildBinary();
+      const binary = this._buildBinary();
+      if (this._fileType === FileType.CompressedGTO) {
+        return Writer._exactBuffer((this._options.compress ?? gzip)(new Uint8Array(binary)));
+      }
+      return binary;
     }
     return this.toString();
   }
 
+  /**
+   * Close the writer and finalize output asynchronously
+   * Compressed files are gzipped with CompressionStream where available,
+   * unless the `compress` option is set.
+   * @returns Promise resolving to GTO text content or binary ArrayBuffer
+   */
+  async closeAsync(): Promise<string | ArrayBuffer> {
+    if (this._fileType !== FileType.CompressedGTO || this._options.compress || typeof CompressionStream === 'undefined') {
+      return this.close();
+    }
+    this._state = WriterState.Closed;
+    const stream = new Blob([this._buildBinary()]).stream().pipeThrough(new CompressionStream('gzip'));
+    return new Response(stream).arrayBuffer();
+  }
+
+  /**
+   * Get an ArrayBuffer holding exactly the bytes of an array
+   */
+  private static _exactBuffer(bytes: Uint8Array): ArrayBuffer {
+    if (bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength && bytes.buffer instanceof ArrayBuffer) {
+      return bytes.buffer;
+    }
+    return bytes.slice().buffer;
+  }
+
   /**
    * Get the current output as string
    */
@@ -177,13 +312,13 @@ export class Writer {
    * Add indentation to output
    */
   private _writeIndent(): void {
-    this._output += '    '.repeat(this._indent);
+    this._output += this._indentString.repeat(this._indent);
   }
 
   /**
    * Write a line with proper indentation
    */
-  private _writeLine(line: string = ''): void {
+  protected _writeLine(line: string = ''): void {
     if (line) {
       this._writeIndent();
       this._output += line;
@@ -203,6 +338,7 @@ export class Writer {
     }
 
     this._state = WriterState.Object;
+    this._objectName = name;
 
     // Intern strings
     const nameId = this.intern(name);
@@ -219,7 +355,7 @@ export class Writer {
       });
     } else {
       // Write object header
-      let header = `${name} : ${protocol}`;
+      let header = `${this._quoteName(name)} : ${this._quoteName(protocol)}`;
       if (protocolVersion > 0) {
         header += ` (${protocolVersion})`;
       }
@@ -252,36 +388,53 @@ export class Writer {
 
   /**
    * Begin a new component within the current object
+   *
+   * Beginning a component inside another component nests it (GTO v4). A
+   * component's own properties must all come before its nested components.
    * @param name - Component name
    * @param interpretation - Optional interpretation string
-   * @param transposed - Whether data is transposed
+   * @param transposed - Store the component's data element by element, with
+   *                     its properties interleaved (binary only; all
+   *                     properties must have the same size)
    */
   beginComponent(name: string, interpretation: string = '', transposed: boolean = false): void {
-    if (this._state !== WriterState.Object) {
+    if (this._state !== WriterState.Object && this._state !== WriterState.Component) {
       throw new Error('Must be inside an object to begin component');
     }
 
+    // The parent's properties end where its first child begins
+    const parent = this._componentStack[this._componentStack.length - 1];
+    if (parent) {
+      this._requireVersion4(`Nested component '${name}'`);
+    }
+    if (parent && !parent.hasChildren) {
+      parent.hasChildren = true;
+      if (this._binaryMode) {
+        this._endProperties(parent);
+      }
+    }
+
     this._state = WriterState.Component;
 
     // Intern strings
     const nameId = this.intern(name);
     const interpretationId = interpretation ? this.intern(interpretation) : 0;
 
+    this._componentStack.push({ name, index: this._componentInfos.length, hasChildren: false });
     if (this._binaryMode) {
-      this._currentComponentIdx = this._componentInfos.length;
       this._componentInfos.push({
         nameId,
         interpretationId,
         numProperties: 0,
-        flags: transposed ? 1 : 0,
-        childLevel: 0,  // Nested components not yet supported in builder
+        flags: transposed ? HeaderFlags.Transposed : 0,
+        childLevel: this._componentStack.length - 1,
         propertyStartIdx: this._propertyInfos.length
       });
     } else {
       // Write component header (quote if contains special chars)
       let header = this._quoteName(name);
       if (interpretation) {
-        header += ` as ${interpretation}`;
+        header += ` as ${this._quoteName(interpretation)}`;
       }
       this._writeLine(header);
       this._writeLine('{');
@@ -297,17 +450,25 @@ export class Writer {
       throw new Error('No component to end');
     }
 
+    const current = this._componentStack.pop()!;
     if (this._binaryMode) {
-      // Update numProperties for the current component
-      const compInfo = this._componentInfos[this._currentComponentIdx];
-      compInfo.numProperties = this._propertyInfos.length - compInfo.propertyStartIdx;
-      this._currentComponentIdx = -1;
+      if (!current.hasChildren) {
+        this._endProperties(current);
+      }
     } else {
       this._indent--;
       this._writeLine('}');
       this._writeLine(); // Blank line between components
     }
-    this._state = WriterState.Object;
+    this._state = this._componentStack.length > 0 ? WriterState.Component : WriterState.Object;
+  }
+
+  /**
+   * Update numProperties once a component's own properties are complete
+   */
+  private _endProperties(component: OpenComponent): void {
+    const compInfo = this._componentInfos[component.index];
+    compInfo.numProperties = this._propertyInfos.length - compInfo.propertyStartIdx;
   }
 
   /**
@@ -318,20 +479,27 @@ export class Writer {
    * @param width - Parts per element (e.g., 3 for xyz)
    * @param interpretation - Optional interpretation string
    * @param data - The property data
+   * @param dims - Optional element shape (e.g., [4, 4] with width 16)
    */
-  propertyWithData(name: string, type: DataType, size: number, width: number, interpretation: string, data: DataArray): void {
-    if (this._state !== WriterState.Component) {
-      throw new Error('Must be inside a component to declare property');
-    }
+  propertyWithData(
+    name: string,
+    type: DataType,
+    size: number,
+    width: number,
+    interpretation: string,
+    data: DataArray,
+    dims?: number[]
+  ): void {
+    this._checkPropertyState(name);
+    const shape = this._checkShape(name, width, dims);
 
     // Intern strings
     const nameId = this.intern(name);
     const interpretationId = interpretation ? this.intern(interpretation) : 0;
 
-    // Flatten data if nested
-    let flatData: number[] = Array.from(data as ArrayLike<number>);
-    if (Array.isArray(data) && data.length > 0 && Array.isArray(data[0])) {
-      flatData = (data as unknown as number[][]).flat();
+    const flatData = Writer._flatten(data);
+    if (this._options.strict) {
+      this._validateData(this._propertyPath(name), type, size, width, flatData);
     }
 
     if (this._binaryMode) {
@@ -342,31 +510,23 @@ export class Writer {
         type,
         size,
         width,
-        dims: [1, 1, 1, 1]
+        dims: padDimensions(shape)
       });
       this._propertyData.push(flatData);
     } else {
       // Build declaration
-      const typeName = DataTypeName[type];
-      let declaration = typeName;
-
-      // In GTO text format:
-      // - type[N] means width=N (parts per element)
-      // - size is inferred from data, never written explicitly
-      if (width > 1) {
-        declaration += `[${width}]`;
-      }
+      let declaration = this._declarationType(type, size, width, shape);
 
       // Add name
-      declaration += ` ${name}`;
+      declaration += ` ${this._quoteName(name)}`;
 
       // Add interpretation if present
       if (interpretation) {
-        declaration += ` as ${interpretation}`;
+        declaration += ` as ${this._quoteName(interpretation)}`;
       }
 
       // Format data
-      const formattedData = this._formatData(type, width, size, flatData);
+      const formattedData = this._formatData(type, width, size, Array.from(flatData));
       declaration += ` = ${formattedData}`;
 
       this._writeLine(declaration);
@@ -381,10 +541,19 @@ export class Writer {
    * @param size - Number of elements
    * @param width - Parts per element (e.g., 3 for xyz)
    * @param interpretation - Optional interpretation string
+   * @param dims - Optional element shape (e.g., [4, 4] with width 16)
    */
-  property(name: string, type: DataType, size: number, width: number = 1, interpretation: string = ''): void {
+  property(name: string, type: DataType, size: number, width: number = 1, interpretation: string = '', dims?: number[]): void {
     // For text format, we need to store pending properties
-    this._pendingProperties.push({ name, type, size, width, interpretation });
+    this._pendingProperties.push({
+      name,
+      path: this._propertyPath(name),
+      type,
+      size,
+      width,
+      interpretation,
+      dims: this._checkShape(name, width, dims)
+    });
 
     // Intern strings
     this.intern(name);
@@ -412,20 +581,17 @@ export class Writer {
     const prop = this._pendingProperties[this._propertyIndex++];
 
     // Build declaration
-    const typeName = DataTypeName[prop.type];
-    let declaration = typeName;
+    let declaration = this._declarationType(prop.type, prop.size, prop.width, prop.dims);
 
-    // In GTO text format: type[width] - size is inferred from data
-    if (prop.width > 1) {
-      declaration += `[${prop.width}]`;
-    }
-
-    declaration += ` ${prop.name}`;
+    declaration += ` ${this._quoteName(prop.name)}`;
     if (prop.interpretation) {
-      declaration += ` as ${prop.interpretation}`;
+      declaration += ` as ${this._quoteName(prop.interpretation)}`;
     }
 
     const flatData = Array.from(data as ArrayLike<number>);
+    if (this._options.strict) {
+      this._validateData(prop.path, prop.type, prop.size, prop.width, flatData);
+    }
     const formattedData = this._formatData(prop.type, prop.width, prop.size, flatData);
     declaration += ` = ${formattedData}`;
 
@@ -440,10 +606,155 @@ export class Writer {
     this._propertyIndex = 0;
   }
 
+  /**
+   * Check that a property can be declared in the current component
+   */
+  protected _checkPropertyState(name: string): void {
+    if (this._state !== WriterState.Component) {
+      throw new Error('Must be inside a component to declare property');
+    }
+    if (this._componentStack[this._componentStack.length - 1].hasChildren) {
+      throw new Error(`Property '${name}' must be declared before nested components`);
+    }
+  }
+
+  /**
+   * Describe where a property of the current component is, for error messages
+   */
+  protected _propertyPath(name: string): string {
+    const components = this._componentStack.map(component => component.name).join('.');
+    return `object '${this._objectName}', component '${components}', property '${name}'`;
+  }
+
+  /**
+   * Check property data against its declaration (strict mode)
+   * @param path - Where the property is, from _propertyPath()
+   * @throws Error naming the property and the first problem found
+   */
+  protected _validateData(path: string, type: DataType, size: number, width: number, data: ArrayLike<unknown>): void {
+    if (!(type in DataTypeSize)) {
+      throw new Error(`Invalid data for ${path}: unknown data type ${type}`);
+    }
+    if (data.length !== size * width) {
+      throw new Error(`Invalid data for ${path}: declared ${size} x ${width} values but got ${data.length}`);
+    }
+    for (let i = 0; i < data.length; i++) {
+      const problem = this._checkValue(type, data[i]);
+      if (problem) {
+        const value = typeof data[i] === 'string' ? `'${data[i]}'` : String(data[i]);
+        throw new Error(`Invalid data for ${path}: value ${value} at index ${i} ${problem}`);
+      }
+    }
+  }
+
+  /**
+   * Check one value against a data type
+   * @returns What is wrong with the value, or null if it is valid
+   */
+  private _checkValue(type: DataType, value: unknown): string | null {
+    const typeName = DataTypeName[type];
+    switch (type) {
+      case DataType.String:
+        if (typeof value === 'string') {
+          return this._binaryMode ? 'is not a string table id (intern binary string data first)' : null;
+        }
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value >= this._stringTable.size) {
+          return 'is not a string table id';
+        }
+        return null;
+      case DataType.Boolean:
+        return typeof value === 'boolean' || value === 0 || value === 1 ? null : 'is not a boolean';
+      case DataType.Int64:
+        if (typeof value === 'bigint') {
+          return value === BigInt.asIntN(64, value) ? null : 'is out of range for int64';
+        }
+        return Number.isSafeInteger(value) ? null : 'is not an int64 integer';
+      case DataType.Int:
+      case DataType.Short:
+      case DataType.Byte: {
+        if (typeof value !== 'number' || !Number.isInteger(value)) {
+          return `is not an integer`;
+        }
+        const [min, max] = INTEGER_RANGE[type]!;
+        return value < min || value > max ? `is out of range for ${typeName} (${min} to ${max})` : null;
+      }
+      default:
+        if (typeof value !== 'number') {
+          return 'is not a number';
+        }
+        if (!Number.isFinite(value) || Math.abs(value) > FLOAT_MAX[type]!) {
+          return `is out of range for ${typeName}`;
+        }
+        return null;
+    }
+  }
+
+  /**
+   * Flatten property data if nested (multi-dimensional elements nest more than once)
+   * Typed arrays are copied as typed arrays, so binary output can encode them in bulk.
+   */
+  protected static _flatten(data: DataArray): ArrayLike<Value> {
+    if (Array.isArray(data) && data.length > 0 && Array.isArray(data[0])) {
+      return (data as unknown[]).flat(Infinity) as Value[];
+    }
+    if (ArrayBuffer.isView(data)) {
+      return (data as PropertyTypedArray).slice();
+    }
+    return Array.from(data as ArrayLike<Value>);
+  }
+
+  /**
+   * Validate an element shape against the width and format version
+   * @returns The shape, or undefined if the property is not multi-dimensional
+   */
+  protected _checkShape(name: string, width: number, dims: number[] | undefined): number[] | undefined {
+    const shape = elementShape(dims);
+    if (shape) {
+      this._requireVersion4(`Property '${name}' with dims [${shape.join(',')}]`);
+      if (shape.length > 4) {
+        throw new Error(`Property '${name}' has ${shape.length} dims, at most 4 are supported`);
+      }
+      const count = shape.reduce((a, b) => a * b, 1);
+      if (count !== width) {
+        throw new Error(`Property '${name}' has dims [${shape.join(',')}] (${count} values) but width ${width}`);
+      }
+    }
+    return shape;
+  }
+
+  /**
+   * Throw if the output format version predates a feature
+   * @param feature - What needs version 4, for the error message
+   */
+  private _requireVersion4(feature: string): void {
+    if (this._version < 4) {
+      throw new Error(`${feature} requires GTO version 4, but version ${this._version} is being written`);
+    }
+  }
+
+  /**
+   * Build the type part of a text declaration
+   * In GTO text format type[N] means width=N (parts per element), type[4,4]
+   * a multi-dimensional element; size is inferred from data unless the
+   * explicitSize format option adds it as type[N][size].
+   */
+  private _declarationType(type: DataType, size: number, width: number, shape: number[] | undefined): string {
+    let declaration = DataTypeName[type];
+    if (shape) {
+      declaration += formatDimensions(shape);
+    } else if (width > 1 || this._format.explicitSize) {
+      declaration += `[${width}]`;
+    }
+    if (this._format.explicitSize) {
+      declaration += `[${size}]`;
+    }
+    return declaration;
+  }
+
   /**
    * Format property data for text output
    */
-  private _formatData(type: DataType, width: number, size: number, data: number[]): string {
+  private _formatData(type: DataType, width: number, size: number, data: Value[]): string {
     if (!data || data.length === 0) {
       return '[ ]';
     }
@@ -454,10 +765,10 @@ export class Writer {
         if (typeof id === 'string') {
           return `"${this._escapeString(id)}"`;
         }
-        return `"${this._escapeString(this.stringFromId(id))}"`;
+        return `"${this._escapeString(this.stringFromId(Number(id)))}"`;
       });
       // Single string value without brackets
-      if (size === 1 && width === 1) {
+      if (size === 1 && width === 1 && !this._format.bracketSingleValues) {
         return strings[0];
       }
       return this._formatArray(strings, width);
@@ -467,7 +778,7 @@ export class Writer {
     const formatted = data.map(v => this._formatNumber(v, type));
 
     // Single numeric value without brackets
-    if (size === 1 && width === 1) {
+    if (size === 1 && width === 1 && !this._format.bracketSingleValues) {
       return formatted[0];
     }
 
@@ -478,41 +789,99 @@ export class Writer {
    * Format an array with grouping by width
    */
   private _formatArray(arr: string[], width: number): string {
-    if (width <= 1 || arr.length <= width) {
+    const { maxValuesPerLine } = this._format;
+    if (maxValuesPerLine === undefined && (width <= 1 || arr.length <= width)) {
       return `[ ${arr.join(' ')} ]`;
     }
 
     // Group by width
     const groups: string[] = [];
-    for (let i = 0; i < arr.length; i += width) {
-      const group = arr.slice(i, i + width);
-      groups.push(`[ ${group.join(' ')} ]`);
+    if (width <= 1) {
+      groups.push(...arr);
+    } else {
+      for (let i = 0; i < arr.length; i += width) {
+        const group = arr.slice(i, i + width);
+        groups.push(`[ ${group.join(' ')} ]`);
+      }
     }
 
-    // If many groups, format with newlines
-    if (groups.length > 4) {
-      const indent = '    '.repeat(this._indent + 1);
-      return `[\n${indent}${groups.join(`\n${indent}`)}\n${'    '.repeat(this._indent)}]`;
+    // If many values, format with newlines
+    const perLine = maxValuesPerLine === undefined ? 1 : Math.max(1, Math.floor(maxValuesPerLine / Math.max(width, 1)));
+    const multiline = maxValuesPerLine === undefined ? groups.length > 4 : arr.length > maxValuesPerLine;
+    if (multiline) {
+      const lines: string[] = [];
+      for (let i = 0; i < groups.length; i += perLine) {
+        lines.push(groups.slice(i, i + perLine).join(' '));
+      }
+      const indent = this._indentString.repeat(this._indent + 1);
+      return `[\n${indent}${lines.join(`\n${indent}`)}\n${this._indentString.repeat(this._indent)}]`;
     }
 
     return `[ ${groups.join(' ')} ]`;
   }
 
+  /**
+   * Indentation of one nesting level
+   */
+  private get _indentString(): string {
+    return this._format.indent ?? '    ';
+  }
+
   /**
    * Format a number for text output
    */
-  private _formatNumber(value: number, type: DataType): string {
+  private _formatNumber(value: Value, type: DataType): string {
     if (type === DataType.Float || type === DataType.Double || type === DataType.Half) {
+      let number = Number(value);
+      const { floatPrecision, shortestFloats } = this._format;
+      if (floatPrecision !== undefined) {
+        number = Number(number.toPrecision(floatPrecision));
+      } else if (shortestFloats) {
+        number = Writer._shortestFloat(number, type);
+      }
       // Ensure float representation
-      if (Number.isInteger(value)) {
-        return value.toFixed(1);
+      if (Number.isInteger(number)) {
+        return number.toFixed(1);
       }
       // Use full precision to preserve exact values
-      return String(value);
+      return String(number);
     }
     return String(value);
   }
 
+  /**
+   * Round a value to the fewest significant digits that still read back as
+   * the same value of a floating-point type
+   */
+  private static _shortestFloat(value: number, type: DataType): number {
+    if (!Number.isFinite(value)) {
+      return value;
+    }
+    const stored = Writer._storedFloat(value, type);
+    const maxDigits = MAX_DIGITS[type] ?? 17;
+    for (let digits = 1; digits < maxDigits; digits++) {
+      const candidate = Number(value.toPrecision(digits));
+      if (Writer._storedFloat(candidate, type) === stored) {
+        return candidate;
+      }
+    }
+    return Number(value.toPrecision(maxDigits));
+  }
+
+  /**
+   * The value a floating-point type stores for a number
+   */
+  private static _storedFloat(value: number, type: DataType): number {
+    switch (type) {
+      case DataType.Float:
+        return Math.fround(value);
+      case DataType.Half:
+        return halfToFloat(floatToHalf(value));
+      default:
+        return value;
+    }
+  }
+
   /**
    * Escape a string for text output
    */
@@ -522,15 +891,18 @@ export class Writer {
       .replace(/"/g, '\\"')
       .replace(/\n/g, '\\n')
       .replace(/\r/g, '\\r')
-      .replace(/\t/g, '\\t');
+      .replace(/\t/g, '\\t')
+      // Other control characters and unpaired surrogates, which UTF-8 can't hold
+      .replace(/[\x00-\x1f\x7f]|[\ud800-\udbff](?![\udc00-\udfff])|(?<![\ud800-\udbff])[\udc00-\udfff]/g,
+        ch => `\\u${ch.charCodeAt(0).toString(16).padStart(4, '0')}`);
   }
 
   /**
-   * Quote a name if it contains special characters
+   * Quote a name unless it is a plain identifier
    */
   private _quoteName(name: string): string {
-    // Quote if contains special chars or starts with digit
-    if (/[^a-zA-Z0-9_\-.]/.test(name) || /^[0-9]/.test(name)) {
+    // Identifiers start with a letter or '_'; 'as' is a keyword
+    if (!/^[a-zA-Z_][a-zA-Z0-9_\-.]*$/.test(name) || name === 'as') {
       return `"${this._escapeString(name)}"`;
     }
     return name;
@@ -544,17 +916,7 @@ export class Writer {
    * Build complete binary GTO file
    */
   private _buildBinary(): ArrayBuffer {
-    const littleEndian = true; // Use little-endian by default
-
-    // Get string table bytes
-    const stringTableBytes = this._stringTable.writeToBinary();
-
-    // Calculate total size (v4 format)
-    const headerSize = 20;
-    const stringTableSize = stringTableBytes.byteLength;
-    const objectHeaderSize = this._objectInfos.length * 20;
-    const componentHeaderSize = this._componentInfos.length * 20; // v4: includes childLevel
-    const propertyHeaderSize = this._propertyInfos.length * 36;   // v4: includes all 4 dims
+    const littleEndian = this._littleEndian;
 
     // Calculate data section size
     let dataSize = 0;
@@ -565,6 +927,58 @@ export class Writer {
       dataSize += data.length * typeSize;
     }
 
+    const { view, offset: dataOffset } = this._buildBinaryHeaders(dataSize);
+    const bytes = new Uint8Array(view.buffer);
+    let offset = dataOffset;
+
+    // Write data section
+    for (const compInfo of this._componentInfos) {
+      const start = compInfo.propertyStartIdx;
+      const end = start + compInfo.numProperties;
+
+      if (compInfo.flags & HeaderFlags.Transposed) {
+        offset = this._writeTransposedData(view, offset, start, end, littleEndian);
+        continue;
+      }
+
+      for (let i = start; i < end; i++) {
+        const encoded = encodeValues(this._propertyData[i], this._propertyInfos[i].type, littleEndian);
+        bytes.set(encoded, offset);
+        offset += encoded.length;
+      }
+    }
+
+    return view.buffer;
+  }
+
+  /**
+   * Whether binary output is little-endian
+   */
+  protected get _littleEndian(): boolean {
+    const byteOrder = this._options.byteOrder ?? 'little';
+    return byteOrder === 'native' ? isLittleEndian() : byteOrder === 'little';
+  }
+
+  /**
+   * Write everything that precedes the data section of a binary file: the
+   * file header, string table, and object, component and property headers
+   * @param dataSize - Bytes to leave for the data section after the headers
+   * @returns The file buffer and the offset of its data section
+   */
+  protected _buildBinaryHeaders(dataSize: number): { view: DataView<ArrayBuffer>; offset: number } {
+    const littleEndian = this._littleEndian;
+
+    // Get string table bytes
+    const stringTableBytes = this._stringTable.writeToBinary();
+
+    // Calculate total size (v2/v3 headers lack childLevel and dims)
+    const v4 = this._version >= 4;
+    const headerSize = 20;
+    const stringTableSize = stringTableBytes.byteLength;
+    const objectHeaderSize = this._objectInfos.length * 20;
+    const componentHeaderSize = this._componentInfos.length * (v4 ? 20 : 16);
+    const propertyHeaderSize = this._propertyInfos.length * (v4 ? 36 : 20);
+
     const totalSize = headerSize + stringTableSize + objectHeaderSize +
                       componentHeaderSize + propertyHeaderSize + dataSize;
 
@@ -594,16 +1008,18 @@ export class Writer {
       view.setUint32(offset, 0, littleEndian); offset += 4; // pad
     }
 
-    // Write component headers (20 bytes each for v4)
+    // Write component headers (20 bytes each for v4, 16 for older)
     for (const compInfo of this._componentInfos) {
       view.setUint32(offset, compInfo.nameId, littleEndian); offset += 4;
       view.setUint32(offset, compInfo.interpretationId, littleEndian); offset += 4;
       view.setUint32(offset, compInfo.numProperties, littleEndian); offset += 4;
       view.setUint32(offset, compInfo.flags, littleEndian); offset += 4;
-      view.setUint32(offset, compInfo.childLevel, littleEndian); offset += 4; // v4: childLevel
+      if (v4) {
+        view.setUint32(offset, compInfo.childLevel, littleEndian); offset += 4;
+      }
     }
 
-    // Write property headers (36 bytes each for v4 - includes all 4 dims)
+    // Write property headers (36 bytes each for v4 - includes all 4 dims, 20 for older)
     for (const propInfo of this._propertyInfos) {
       view.setUint32(offset, propInfo.nameId, littleEndian); offset += 4;
       view.setUint32(offset, propInfo.interpretationId, littleEndian); offset += 4;
@@ -611,68 +1027,71 @@ export class Writer {
       offset += 3; // pad
       view.setUint32(offset, propInfo.size, littleEndian); offset += 4;
       view.setUint32(offset, propInfo.width, littleEndian); offset += 4;
-      // v4: write all 4 dims
-      view.setUint32(offset, propInfo.dims[0], littleEndian); offset += 4;
-      view.setUint32(offset, propInfo.dims[1], littleEndian); offset += 4;
-      view.setUint32(offset, propInfo.dims[2], littleEndian); offset += 4;
-      view.setUint32(offset, propInfo.dims[3], littleEndian); offset += 4;
-    }
-
-    // Write data section
-    for (let i = 0; i < this._propertyInfos.length; i++) {
-      const propInfo = this._propertyInfos[i];
-      const data = this._propertyData[i];
-
-      for (const value of data) {
-        this._writeBinaryValue(view, offset, propInfo.type, value, littleEndian);
-        offset += DataTypeSize[propInfo.type] || 4;
+      if (v4) {
+        view.setUint32(offset, propInfo.dims[0], littleEndian); offset += 4;
+        view.setUint32(offset, propInfo.dims[1], littleEndian); offset += 4;
+        view.setUint32(offset, propInfo.dims[2], littleEndian); offset += 4;
+        view.setUint32(offset, propInfo.dims[3], littleEndian); offset += 4;
       }
     }
 
-    return buffer;
+    return { view, offset };
   }
 
   /**
-   * Write a single binary value
+   * Write the data of a transposed component: for each element, the values
+   * of every property in turn
+   * @returns Offset after the written data
    */
-  private _writeBinaryValue(view: DataView, offset: number, type: DataType, value: number, littleEndian: boolean): void {
-    switch (type) {
-      case DataType.Int:
-        view.setInt32(offset, value, littleEndian);
-        break;
-      case DataType.Float:
-        view.setFloat32(offset, value, littleEndian);
-        break;
-      case DataType.Double:
-        view.setFloat64(offset, value, littleEndian);
-        break;
-      case DataType.Half:
-        view.setUint16(offset, floatToHalf(value), littleEndian);
-        break;
-      case DataType.String:
-        view.setUint32(offset, value, littleEndian);
-        break;
-      case DataType.Boolean:
-        view.setUint8(offset, value ? 1 : 0);
-        break;
-      case DataType.Short:
-        view.setUint16(offset, value, littleEndian);
-        break;
-      case DataType.Byte:
-        view.setUint8(offset, value);
-        break;
-      case DataType.Int64:
-        view.setBigInt64(offset, BigInt(value), littleEndian);
-        break;
-      default:
-        throw new Error(`Unknown data type: ${type}`);
+  protected _writeTransposedData(view: DataView, offset: number, start: number, end: number, littleEndian: boolean): number {
+    const size = end > start ? this._propertyInfos[start].size : 0;
+    for (let i = start; i < end; i++) {
+      const propInfo = this._propertyInfos[i];
+      if (propInfo.size !== size || this._propertyData[i].length !== size * propInfo.width) {
+        throw new Error(
+          `Transposed component property '${this.stringFromId(propInfo.nameId)}' must have ${size} elements ` +
+          `of width ${propInfo.width}`
+        );
+      }
     }
+
+    // Encode each property whole, then interleave their elements
+    const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+    const encoded: Uint8Array[] = [];
+    const elementBytes: number[] = [];
+    for (let i = start; i < end; i++) {
+      const propInfo = this._propertyInfos[i];
+      encoded.push(encodeValues(this._propertyData[i], propInfo.type, littleEndian));
+      elementBytes.push(propInfo.width * (DataTypeSize[propInfo.type] || 4));
+    }
+    for (let element = 0; element < size; element++) {
+      for (let j = 0; j < encoded.length; j++) {
+        const source = encoded[j];
+        const length = elementBytes[j];
+        const from = element * length;
+        for (let b = 0; b < length; b++) {
+          bytes[offset + b] = source[from + b];
+        }
+        offset += length;
+      }
+    }
+    return offset;
   }
 }
 
 /** Options for SimpleWriter */
-export interface WriteOptions {
+export interface WriteOptions extends WriterOptions {
   binary?: boolean;
+  /** Layout of text output */
+  format?: TextFormatOptions;
+  /**
+   * Write the canonical form (see canonicalize()): sorted objects,
+   * components and properties, a sorted string table and shortest
+   * round-trip floats, so equal data always gives identical output
+   */
+  canonical?: boolean;
+  /** Write gzip-compressed binary (implies binary) */
+  compressed?: boolean;
 }
 
 /**
@@ -686,51 +1105,85 @@ export class SimpleWriter {
    * @returns GTO text content or binary ArrayBuffer
    */
   static write(data: GTOData, options: WriteOptions = {}): string | ArrayBuffer {
-    const writer = new Writer();
-    const fileType = options.binary ? FileType.BinaryGTO : FileType.TextGTO;
-    writer.open(fileType);
+    return SimpleWriter._fill(data, options).close();
+  }
+
+  /**
+   * Write structured data to GTO format asynchronously
+   * Compressed output uses CompressionStream where available.
+   * @param data - Structured data object
+   * @param options - Options object
+   * @returns Promise resolving to GTO text content or binary ArrayBuffer
+   */
+  static writeAsync(data: GTOData, options: WriteOptions = {}): Promise<string | ArrayBuffer> {
+    return SimpleWriter._fill(data, options).closeAsync();
+  }
+
+  /**
+   * Open a writer for the options and write all objects to it
+   */
+  private static _fill(data: GTOData, options: WriteOptions): Writer {
+    const writer = new Writer(options);
+    const fileType = options.compressed
+      ? FileType.CompressedGTO
+      : options.binary ? FileType.BinaryGTO : FileType.TextGTO;
+
+    if (options.canonical) {
+      data = canonicalize(data);
+      writer.open(fileType, { shortestFloats: true, ...options.format });
+      writer.intern(canonicalStrings(data));
+    } else {
+      writer.open(fileType, options.format);
+    }
 
     for (const obj of data.objects) {
       writer.beginObject(obj.name, obj.protocol, obj.protocolVersion || 1);
 
       for (const [compName, component] of Object.entries(obj.components) as [string, ComponentData][]) {
-        writer.beginComponent(compName, component.interpretation || '');
-
-        for (const [propName, prop] of Object.entries(component.properties) as [string, PropertyData][]) {
-          // Convert string type name to DataType enum
-          let type: DataType;
-          if (typeof prop.type === 'string') {
-            const typeName = prop.type.charAt(0).toUpperCase() + prop.type.slice(1);
-            type = DataType[typeName as keyof typeof DataType] as DataType;
-            if (type === undefined) {
-              // Handle 'bool' -> 'Boolean'
-              type = prop.type === 'bool' ? DataType.Boolean : DataType.Float;
-            }
-          } else {
-            type = prop.type as unknown as DataType;
-          }
-
-          // Flatten grouped data
-          let flatData: number[] = prop.data as number[];
-          if (Array.isArray(prop.data) && Array.isArray(prop.data[0])) {
-            flatData = (prop.data as number[][]).flat();
-          }
-
-          // Intern strings if needed
-          if (type === DataType.String && flatData.length > 0 && typeof flatData[0] === 'string') {
-            flatData = (flatData as unknown as string[]).map(s => writer.intern(s));
-          }
-
-          const size = prop.size || Math.floor(flatData.length / (prop.width || 1));
-          writer.propertyWithData(propName, type, size, prop.width || 1, prop.interpretation || '', flatData);
+        SimpleWriter._writeComponent(writer, obj.name, compName, component, options.strict ?? false);
+      }
+
+      writer.endObject();
+    }
+
+    return writer;
+  }
+
+  /**
+   * Write a component, its properties, then its nested components
+   */
+  private static _writeComponent(writer: Writer, objName: string, compName: string, component: ComponentData, strict: boolean): void {
+    writer.beginComponent(compName, component.interpretation || '', component.transposed ?? false);
+
+    for (const [propName, prop] of Object.entries(component.properties) as [string, PropertyData][]) {
+      // Convert string type name to DataType enum
+      let type = propertyDataType(prop.type);
+      if (type === undefined) {
+        if (strict) {
+          throw new Error(`Unknown type '${prop.type}' for object '${objName}', component '${compName}', property '${propName}'`);
         }
+        type = DataType.Float;
+      }
 
-        writer.endComponent();
+      // Flatten grouped (and shaped) data
+      let flatData: Value[] = prop.data as Value[];
+      if (Array.isArray(prop.data) && Array.isArray(prop.data[0])) {
+        flatData = (prop.data as unknown[]).flat(Infinity) as Value[];
       }
 
-      writer.endObject();
+      // Intern strings if needed
+      if (type === DataType.String && flatData.length > 0 && typeof flatData[0] === 'string') {
+        flatData = (flatData as unknown as string[]).map(s => writer.intern(s));
+      }
+
+      const size = prop.size || Math.floor(flatData.length / (prop.width || 1));
+      writer.propertyWithData(propName, type, size, prop.width || 1, prop.interpretation || '', flatData, prop.dims);
+    }
+
+    for (const [childName, child] of Object.entries(component.components ?? {})) {
+      SimpleWriter._writeComponent(writer, objName, childName, child, strict);
     }
 
-    return writer.close();
+    writer.endComponent();
   }
 }
@@ -0,0 +1,72 @@
+/**
+ * Binary read/write throughput over a synthetic file of GTO_BENCH_MB
+ * megabytes (default 100): pnpm bench
+ */
+import { bench, describe } from 'vitest';
+import { Reader, SimpleReader, Writer, DataType, FileType, ReaderMode } from '../src/index.js';
+import type { WriterOptions, PropertyInfo, PropertyValues } from '../src/index.js';
+
+const MEGABYTES = Number(process.env.GTO_BENCH_MB ?? 100);
+const OPTIONS = { iterations: 3, time: 0, warmupIterations: 1, warmupTime: 0 };
+
+// Bytes per element of each property: 12 + 4 + 8 + 2 * 4 + 1 = 33
+const elements = Math.floor(MEGABYTES * 1024 * 1024 / 33);
+const positions = new Float32Array(elements * 3).map((_, i) => i * 0.001);
+const indices = new Int32Array(elements).map((_, i) => i);
+const weights = new Float64Array(elements).map((_, i) => 1 / (i + 1));
+const colors = new Float32Array(elements * 4).map((_, i) => (i % 256) / 255);
+const flags = new Uint8Array(elements).map((_, i) => i & 1);
+
+function writeFile(options: WriterOptions = {}): ArrayBuffer {
+  const writer = new Writer(options);
+  writer.open(FileType.BinaryGTO);
+  writer.beginObject('mesh', 'polygon', 2);
+  writer.beginComponent('points');
+  writer.propertyWithData('position', DataType.Float, elements, 3, '', positions);
+  writer.propertyWithData('index', DataType.Int, elements, 1, '', indices);
+  writer.propertyWithData('weight', DataType.Double, elements, 1, '', weights);
+  writer.propertyWithData('color', DataType.Half, elements, 4, '', colors);
+  writer.propertyWithData('flag', DataType.Boolean, elements, 1, '', flags);
+  writer.endComponent();
+  writer.endObject();
+  return writer.close() as ArrayBuffer;
+}
+
+/** Reads every property without keeping the data */
+class CountingReader extends Reader {
+  values = 0;
+  override dataRead(_info: PropertyInfo, data: PropertyValues): void {
+    this.values += data.length;
+  }
+}
+
+const little = writeFile();
+const big = writeFile({ byteOrder: 'big' });
+
+describe(`read ${MEGABYTES} MB`, () => {
+  bench('little-endian, typed arrays', () => {
+    new CountingReader(ReaderMode.None, { typedArrays: true }).open(little);
+  }, OPTIONS);
+
+  bench('big-endian, typed arrays', () => {
+    new CountingReader(ReaderMode.None, { typedArrays: true }).open(big);
+  }, OPTIONS);
+
+  bench('little-endian, arrays', () => {
+    new CountingReader().open(little);
+  }, OPTIONS);
+
+  bench('SimpleReader, typed arrays', () => {
+    new SimpleReader({ typedArrays: true }).open(little);
+  }, OPTIONS);
+});
+
+describe(`write ${MEGABYTES} MB`, () => {
+  bench('little-endian', () => {
+    writeFile();
+  }, OPTIONS);
+
+  bench('big-endian', () => {
+    writeFile({ byteOrder: 'big' });
+  }, OPTIONS);
+});
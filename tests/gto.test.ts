@@ -1,4 +1,4 @@
-import { test, describe, expect } from 'vitest';
+import { test, describe, expect, vi } from 'vitest';
 import {
   Reader,
   SimpleReader,
@@ -7,6 +7,8 @@ import {
   DataType,
   FileType,
   Request,
+  ReaderMode,
+  HeaderFlags,
   StringTable,
   GTOBuilder,
   polygon,
@@ -15,9 +17,32 @@ import {
   ObjectDTO,
   ComponentDTO,
   PropertyDTO,
-  ObjectCollection
+  ObjectCollection,
+  readObjects,
+  gzip,
+  gunzip,
+  ParseErrorCode,
+  GTOParseError,
+  GTOSyntaxError,
+  GTOBinaryError,
+  GTOFormatError,
+  Header,
+  isLittleEndian,
+  StreamWriter,
+  canonicalize,
+  detectFormat,
+  verifyBinary,
+  parseInWorker,
+  WorkerPool
 } from '../src/index.js';
+import { Writable as NodeWritable } from 'node:stream';
 import type { PropertyInfo } from '../src/constants.js';
+import { IncrementalDecompressor, DecompressedSizeError, unzlib } from '../src/compression.js';
+import type { CompressionFormat } from '../src/compression.js';
+import { decodeValues, encodeValues } from '../src/binary-data.js';
+import { runParseRequest } from '../src/worker.js';
+import type { ParseRequest } from '../src/worker.js';
+import { halfToFloat, floatToHalf } from '../src/utils.js';
 
 describe('StringTable', () => {
   test('should intern and lookup strings', () => {
@@ -1805,8 +1830,9 @@ asyncTest : TestProto (1)
     const reader = new SimpleReader();
     const success = reader.open(gzipData);
 
-    // Should fail with message about using openAsync
+    // Truncated - should fail with a compression error
     expect(success).toBe(false);
+    expect(reader.error?.code).toBe(ParseErrorCode.Compression);
   });
 });
 
@@ -1853,3 +1879,2628 @@ describe('Binary Format v4 Features', () => {
     expect(reader.result.objects[0].components.level0.properties.value.data[0]).toBe(1);
   });
 });
+
+describe('Random Access', () => {
+  const buildData = () => new GTOBuilder()
+    .object('first', 'Proto', 1)
+      .component('c')
+        .int('a', [1, 2, 3])
+        .float3('p', [[1, 2, 3], [4, 5, 6]])
+      .end()
+    .end()
+    .object('second', 'Proto', 1)
+      .component('c')
+        .string('s', ['x', 'y'])
+      .end()
+    .end()
+    .build();
+
+  class CountingReader extends Reader {
+    objectCalls = 0;
+    reads: Array<{ name: string; data: number[] }> = [];
+
+    constructor() {
+      super(ReaderMode.RandomAccess);
+    }
+
+    override object(): Request {
+      this.objectCalls++;
+      return Request.Read;
+    }
+
+    override dataRead(info: PropertyInfo, data: number[]): void {
+      this.reads.push({ name: info.name, data });
+    }
+  }
+
+  test('should only read headers on open', () => {
+    const binary = SimpleWriter.write(buildData(), { binary: true });
+    const reader = new CountingReader();
+
+    expect(reader.open(binary)).toBe(true);
+    expect(reader.objectCalls).toBe(0);
+    expect(reader.reads).toEqual([]);
+    expect(reader.objects().map(o => o.name)).toEqual(['first', 'second']);
+    expect(reader.properties().map(p => p.name)).toEqual(['a', 'p', 's']);
+  });
+
+  test('should decode a single property on demand', () => {
+    const binary = SimpleWriter.write(buildData(), { binary: true });
+    const reader = new CountingReader();
+    reader.open(new Uint8Array(binary as ArrayBuffer));
+
+    const p = reader.properties().find(info => info.name === 'p')!;
+    expect(reader.readProperty(p)).toEqual([1, 2, 3, 4, 5, 6]);
+
+    const s = reader.properties().find(info => info.name === 's')!;
+    expect(reader.readProperty(s).map(id => reader.stringFromId(id))).toEqual(['x', 'y']);
+    expect(reader.reads).toEqual([]);
+  });
+
+  test('should run callbacks for a single object with accessObject', () => {
+    const binary = SimpleWriter.write(buildData(), { binary: true });
+    const reader = new CountingReader();
+    reader.open(binary);
+
+    reader.accessObject(reader.objects()[1]);
+
+    expect(reader.objectCalls).toBe(1);
+    expect(reader.reads.map(r => r.name)).toEqual(['s']);
+  });
+
+  test('should support text files', () => {
+    const text = SimpleWriter.write(buildData()) as string;
+    const reader = new CountingReader();
+    reader.open(text);
+
+    expect(reader.objectCalls).toBe(0);
+    const a = reader.properties().find(info => info.name === 'a')!;
+    expect(reader.readProperty(a)).toEqual([1, 2, 3]);
+  });
+
+  test('should reject readProperty without RandomAccess mode', () => {
+    const binary = SimpleWriter.write(buildData(), { binary: true });
+    const reader = new Reader();
+    reader.open(binary);
+
+    expect(() => reader.readProperty(reader.properties()[0])).toThrow(/RandomAccess/);
+  });
+});
+
+describe('Typed Array Data', () => {
+  const buildData = () => new GTOBuilder()
+    .object('mesh', 'polygon', 1)
+      .component('points')
+        .float3('position', [[0, 1, 2], [3, 4, 5]])
+        .double('weight', [0.25, 0.5])
+        .short('size', [3, 4])
+        .string('tag', ['a', 'b'])
+      .end()
+      .component('indices')
+        .int('vertex', [0, 1, 2, 1])
+      .end()
+    .end()
+    .build();
+
+  test('should return typed arrays from binary data', () => {
+    const binary = SimpleWriter.write(buildData(), { binary: true });
+    const reader = new SimpleReader({ typedArrays: true });
+    reader.open(binary);
+
+    const points = reader.result.objects[0].components.points.properties;
+    expect(points.position.data).toBeInstanceOf(Float32Array);
+    expect(Array.from(points.position.data as Float32Array)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(points.weight.data).toBeInstanceOf(Float64Array);
+    expect(points.size.data).toBeInstanceOf(Uint16Array);
+    expect(points.tag.data).toEqual(['a', 'b']);
+
+    const vertex = reader.result.objects[0].components.indices.properties.vertex.data;
+    expect(vertex).toBeInstanceOf(Int32Array);
+    expect(Array.from(vertex as Int32Array)).toEqual([0, 1, 2, 1]);
+  });
+
+  test('should view the file buffer without copying when aligned', () => {
+    const writer = new Writer();
+    writer.open(FileType.BinaryGTO);
+    writer.beginObject('o', 'p', 1);
+    writer.beginComponent('c');
+    writer.propertyWithData('v', DataType.Float, 4, 1, '', [1, 2, 3, 4]);
+    writer.endComponent();
+    writer.endObject();
+    const binary = writer.close() as ArrayBuffer;
+
+    let received: unknown = null;
+    class ViewReader extends Reader {
+      override dataRead(_info: PropertyInfo, data: unknown): void {
+        received = data;
+      }
+    }
+
+    // Pad the file so the data section lands on a 4-byte boundary
+    const dataOffset = binary.byteLength - 16;
+    const shift = (4 - (dataOffset % 4)) % 4;
+    const padded = new Uint8Array(binary.byteLength + shift);
+    padded.set(new Uint8Array(binary), shift);
+
+    const reader = new ViewReader(ReaderMode.None, { typedArrays: true });
+    reader.open(padded.subarray(shift));
+
+    expect(received).toBeInstanceOf(Float32Array);
+    expect((received as Float32Array).buffer).toBe(padded.buffer);
+    expect(Array.from(received as Float32Array)).toEqual([1, 2, 3, 4]);
+  });
+
+  test('should return typed arrays from text data', () => {
+    const text = SimpleWriter.write(buildData()) as string;
+    const reader = new SimpleReader({ typedArrays: true });
+    reader.open(text);
+
+    const position = reader.result.objects[0].components.points.properties.position;
+    expect(position.data).toBeInstanceOf(Float32Array);
+    expect(position.width).toBe(3);
+    expect(position.size).toBe(2);
+  });
+
+  test('should group typed arrays by width in PropertyDTO', () => {
+    const binary = SimpleWriter.write(buildData(), { binary: true });
+    const reader = new SimpleReader({ typedArrays: true });
+    reader.open(binary);
+
+    const position = new GTODTO(reader.result).object('mesh').component('points').property('position');
+    expect(position.at(1)).toBeInstanceOf(Float32Array);
+    expect(Array.from(position.at(1) as Float32Array)).toEqual([3, 4, 5]);
+    expect(position.flat()).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  test('should write typed array data back out', () => {
+    const binary = SimpleWriter.write(buildData(), { binary: true });
+    const reader = new SimpleReader({ typedArrays: true });
+    reader.open(binary);
+
+    const text = SimpleWriter.write(reader.result) as string;
+    const check = new SimpleReader();
+    check.open(text);
+
+    expect(check.result.objects[0].components.points.properties.position.data).toEqual([[0, 1, 2], [3, 4, 5]]);
+    expect(check.result.objects[0].components.points.properties.tag.data).toEqual(['a', 'b']);
+  });
+});
+
+describe('Parse Errors', () => {
+  const binaryFile = () => SimpleWriter.write(new GTOBuilder()
+    .object('obj', 'Proto', 1)
+      .component('comp')
+        .float('values', [1, 2, 3, 4])
+      .end()
+    .end()
+    .build(), { binary: true }) as ArrayBuffer;
+
+  test('should report line, column and context for text errors', () => {
+    const content = `GTOa (4)
+
+obj : Proto (1)
+{
+    comp
+    {
+        float value = 1.0
+        float broken = ]
+    }
+}
+`;
+    const reader = new SimpleReader();
+    expect(reader.open(content, 'broken.rv')).toBe(false);
+
+    const error = reader.error!;
+    expect(error).toBeInstanceOf(GTOSyntaxError);
+    expect(error.code).toBe(ParseErrorCode.UnexpectedToken);
+    expect(error.fileName).toBe('broken.rv');
+    expect(error.line).toBe(8);
+    expect(error.column).toBe(24);
+    expect(error.object).toBe('obj');
+    expect(error.component).toBe('comp');
+    expect(error.property).toBe('broken');
+    expect(error.message).toMatch(/^broken\.rv:8:24: /);
+  });
+
+  test('should throw when throwOnError is set', () => {
+    const reader = new SimpleReader({ throwOnError: true });
+    expect(() => reader.open('GTOa (4)\n\nobj : Proto\n{\n    comp\n    {\n        vec3 p = 1\n    }\n}\n'))
+      .toThrow(GTOSyntaxError);
+    expect(reader.error?.code).toBe(ParseErrorCode.UnknownType);
+    expect(reader.error?.line).toBe(7);
+  });
+
+  test('should report unexpected end of file', () => {
+    const reader = new SimpleReader();
+    reader.open('GTOa (4)\n\nobj : Proto\n{\n    comp\n    {\n');
+    expect(reader.error?.code).toBe(ParseErrorCode.UnexpectedEOF);
+  });
+
+  test('should report unexpected characters', () => {
+    const reader = new SimpleReader();
+    reader.open('GTOa (4)\n\nobj : Proto\n{\n  @\n}\n');
+    expect(reader.error?.code).toBe(ParseErrorCode.UnexpectedCharacter);
+    expect(reader.error?.line).toBe(5);
+    expect(reader.error?.column).toBe(3);
+  });
+
+  test('should report unknown formats', () => {
+    const reader = new SimpleReader();
+    reader.open('not a gto file');
+    expect(reader.error).toBeInstanceOf(GTOFormatError);
+    expect(reader.error?.code).toBe(ParseErrorCode.UnknownFormat);
+  });
+
+  test('should report invalid binary magic with offset', () => {
+    const bytes = new Uint8Array(binaryFile());
+    bytes[0] = 0xff;
+    const reader = new SimpleReader();
+    reader.open(bytes);
+    expect(reader.error).toBeInstanceOf(GTOBinaryError);
+    expect(reader.error?.code).toBe(ParseErrorCode.InvalidMagic);
+    expect(reader.error?.offset).toBe(0);
+  });
+
+  test('should report truncated binary data with offset and property', () => {
+    const binary = binaryFile();
+    const truncated = binary.slice(0, binary.byteLength - 4);
+    const reader = new SimpleReader();
+    reader.open(truncated, 'cut.gto');
+
+    const error = reader.error!;
+    expect(error).toBeInstanceOf(GTOBinaryError);
+    expect(error.code).toBe(ParseErrorCode.Truncated);
+    expect(error.offset).toBe(binary.byteLength - 16);
+    expect(error.property).toBe('values');
+    expect(error.message).toMatch(/^cut\.gto@\d+: /);
+  });
+
+  test('should report out of range string ids', () => {
+    const bytes = new Uint8Array(binaryFile());
+    const view = new DataView(bytes.buffer);
+    const numStrings = view.getUint32(4, true);
+    // First object header follows the 20-byte header and the string table
+    let offset = 20;
+    for (let i = 0; i < numStrings; i++) {
+      while (bytes[offset] !== 0) offset++;
+      offset++;
+    }
+    view.setUint32(offset, 99, true);
+
+    const reader = new SimpleReader({ throwOnError: true });
+    expect(() => reader.open(bytes)).toThrow(GTOParseError);
+    expect(reader.error?.code).toBe(ParseErrorCode.InvalidStringId);
+    expect(reader.error?.offset).toBe(offset);
+  });
+
+  test('should clear the error on a successful open', () => {
+    const reader = new SimpleReader();
+    reader.open('garbage');
+    expect(reader.error).not.toBeNull();
+    reader.open(binaryFile());
+    expect(reader.error).toBeNull();
+  });
+});
+
+describe('Lenient Parsing', () => {
+  const session = `GTOa (4)
+
+good : Proto (1)
+{
+    comp
+    {
+        int a = 1
+        float broken = [ 1.0 2.0 =
+        int b = 2
+        vec3 unknown = 3
+        string c = "ok"
+    }
+
+    other
+    {
+        int d = [ 4 5 ]
+    }
+}
+
+bad : (1)
+{
+    comp
+    {
+        int x = 1
+    }
+}
+
+last : Proto (1)
+{
+    "quoted name" as
+    {
+        int y = 1
+    }
+
+    comp
+    {
+        int[2] z = [ [ 1 2 ] [ 3 @ ] ]
+        int w = 7
+    }
+}
+`;
+
+  test('should skip broken properties, components and objects', () => {
+    const reader = new SimpleReader({ lenient: true });
+    expect(reader.open(session, 'edited.rv')).toBe(true);
+
+    const objects = reader.result.objects;
+    expect(objects.map(o => o.name)).toEqual(['good', 'last']);
+
+    const good = objects[0].components;
+    expect(Object.keys(good.comp.properties)).toEqual(['a', 'b', 'c']);
+    expect(good.comp.properties.c.data).toEqual(['ok']);
+    expect(good.other.properties.d.data).toEqual([4, 5]);
+
+    const last = objects[1].components;
+    expect(Object.keys(last)).toEqual(['comp']);
+    expect(Object.keys(last.comp.properties)).toEqual(['w']);
+  });
+
+  test('should report each recovered error with its location', () => {
+    const reader = new SimpleReader({ lenient: true });
+    reader.open(session, 'edited.rv');
+
+    const errors = reader.diagnostics.filter(d => d.severity === 'error');
+    expect(errors.map(e => [e.code, e.line])).toEqual([
+      [ParseErrorCode.UnexpectedToken, 8],
+      [ParseErrorCode.UnknownType, 10],
+      [ParseErrorCode.UnexpectedToken, 20],
+      [ParseErrorCode.UnexpectedToken, 31],
+      [ParseErrorCode.UnexpectedCharacter, 37]
+    ]);
+    expect(errors[0].property).toBe('broken');
+    expect(errors[0].fileName).toBe('edited.rv');
+    expect(errors[4].component).toBe('comp');
+  });
+
+  test('should keep the info tables consistent', () => {
+    const reader = new SimpleReader({ lenient: true });
+    reader.open(session);
+
+    expect(reader.objects().map(o => o.name)).toEqual(['good', 'last']);
+    expect(reader.objects()[0].numComponents).toBe(2);
+    expect(reader.components()[0].numProperties).toBe(3);
+  });
+
+  test('should warn about a missing closing brace at end of file', () => {
+    const reader = new SimpleReader({ lenient: true });
+    reader.open('GTOa (4)\n\nobj : Proto (1)\n{\n    comp\n    {\n        int a = 1\n');
+
+    expect(reader.result.objects[0].components.comp.properties.a.data).toEqual([1]);
+    expect(reader.diagnostics.map(d => [d.severity, d.code])).toEqual([
+      ['warning', ParseErrorCode.UnexpectedEOF],
+      ['warning', ParseErrorCode.UnexpectedEOF]
+    ]);
+  });
+
+  test('should warn when declared size disagrees with the data', () => {
+    const reader = new SimpleReader();
+    reader.open('GTOa (4)\n\nobj : Proto (1)\n{\n    comp\n    {\n        int[1][3] a = [ 1 2 ]\n    }\n}\n');
+
+    expect(reader.diagnostics).toHaveLength(1);
+    expect(reader.diagnostics[0].severity).toBe('warning');
+    expect(reader.diagnostics[0].code).toBe(ParseErrorCode.SizeMismatch);
+  });
+
+  test('should still fail fast without lenient', () => {
+    const reader = new SimpleReader();
+    expect(reader.open(session)).toBe(false);
+    expect(reader.error?.line).toBe(8);
+  });
+});
+
+describe('Streaming Reader', () => {
+  const buildData = () => new GTOBuilder()
+    .object('first', 'Proto', 1)
+      .component('c')
+        .int('a', [1, 2, 3])
+        .float3('p', [[1, 2, 3], [4, 5, 6]])
+      .end()
+    .end()
+    .object('second', 'Proto', 1)
+      .component('c')
+        .string('s', ['café', 'x { y } # z'])
+      .end()
+    .end()
+    .build();
+
+  const chunks = (bytes: Uint8Array, size: number): Uint8Array[] => {
+    const result: Uint8Array[] = [];
+    for (let i = 0; i < bytes.length; i += size) {
+      result.push(bytes.slice(i, i + size));
+    }
+    return result;
+  };
+
+  const toStream = (parts: Uint8Array[]): ReadableStream<Uint8Array> => new ReadableStream({
+    start(controller) {
+      for (const part of parts) controller.enqueue(part);
+      controller.close();
+    }
+  });
+
+  const gzip = async (bytes: Uint8Array): Promise<Uint8Array> => {
+    const compressed = toStream([bytes]).pipeThrough(new CompressionStream('gzip'));
+    return new Uint8Array(await new Response(compressed).arrayBuffer());
+  };
+
+  const expected = () => {
+    const reader = new SimpleReader();
+    reader.open(SimpleWriter.write(buildData()) as string);
+    return reader.result;
+  };
+
+  test('should read binary data written one byte at a time', async () => {
+    const binary = new Uint8Array(SimpleWriter.write(buildData(), { binary: true }) as ArrayBuffer);
+    const reader = new SimpleReader();
+
+    reader.beginStream('session.gto');
+    for (const chunk of chunks(binary, 1)) {
+      await reader.write(chunk);
+    }
+
+    expect(await reader.end()).toBe(true);
+    expect(reader.result).toEqual(expected());
+  });
+
+  test('should scan a header written in small chunks once', async () => {
+    const names = Array.from({ length: 2000 }, (_, i) => `name${i}`);
+    const binary = new Uint8Array(SimpleWriter.write(new GTOBuilder()
+      .object('many', 'Proto', 1)
+        .component('c')
+          .string('names', names)
+        .end()
+      .end()
+      .build(), { binary: true }) as ArrayBuffer);
+    const getUint8 = vi.spyOn(DataView.prototype, 'getUint8');
+    const reader = new SimpleReader();
+
+    try {
+      reader.beginStream('many.gto');
+      for (const chunk of chunks(binary, 64)) {
+        await reader.write(chunk);
+      }
+      expect(await reader.end()).toBe(true);
+      // Rescanning from the start on each chunk reads the strings ~200 times
+      expect(getUint8.mock.calls.length).toBeLessThan(binary.length * 2);
+    } finally {
+      getUint8.mockRestore();
+    }
+    expect(reader.result.objects[0].components.c.properties.names.data).toEqual(names);
+  });
+
+  test('should read text split inside strings and characters', async () => {
+    const text = new TextEncoder().encode(SimpleWriter.write(buildData()) as string);
+    const reader = new SimpleReader();
+
+    for (const chunk of chunks(text, 3)) {
+      await reader.write(chunk);
+    }
+
+    expect(await reader.end()).toBe(true);
+    expect(reader.result).toEqual(expected());
+  });
+
+  test('should fire callbacks before the input ends', async () => {
+    const binary = new Uint8Array(SimpleWriter.write(buildData(), { binary: true }) as ArrayBuffer);
+    const names: string[] = [];
+    class NameReader extends Reader {
+      override dataRead(info: PropertyInfo): void {
+        names.push(info.name);
+      }
+    }
+    const reader = new NameReader();
+
+    // Everything but the string data of the last property
+    await reader.write(binary.subarray(0, binary.length - 8));
+    expect(names).toEqual(['a', 'p']);
+    expect(reader.bytesRead).toBe(binary.length - 8);
+
+    await reader.write(binary.subarray(binary.length - 8));
+    expect(names).toEqual(['a', 'p', 's']);
+    expect(await reader.end()).toBe(true);
+  });
+
+  test('should read gzip-compressed binary from a ReadableStream', async () => {
+    const binary = new Uint8Array(SimpleWriter.write(buildData(), { binary: true }) as ArrayBuffer);
+    const compressed = await gzip(binary);
+    const progress: number[] = [];
+    const reader = new SimpleReader();
+
+    const ok = await reader.openStream(toStream(chunks(compressed, 16)), 'session.gto', bytes => progress.push(bytes));
+
+    expect(ok).toBe(true);
+    expect(reader.result).toEqual(expected());
+    expect(progress[progress.length - 1]).toBe(compressed.length);
+  });
+
+  test('should inflate gzip and deflate input as it arrives', async () => {
+    const binary = new Uint8Array(SimpleWriter.write(buildData(), { binary: true }) as ArrayBuffer);
+    const names: string[] = [];
+    class NameReader extends Reader {
+      override dataRead(info: PropertyInfo): void {
+        names.push(info.name);
+      }
+    }
+
+    for (const [format, trailer] of [['gzip', 8], ['deflate', 4]] as const) {
+      const compressed = toStream([binary]).pipeThrough(new CompressionStream(format));
+      const bytes = new Uint8Array(await new Response(compressed).arrayBuffer());
+      names.length = 0;
+      const reader = new NameReader();
+
+      // Each write() parses what its chunk completes, before the checksum arrives
+      for (const chunk of chunks(bytes.subarray(0, bytes.length - trailer), 1)) {
+        await reader.write(chunk);
+      }
+      expect(names, format).toEqual(['a', 'p', 's']);
+
+      await reader.write(bytes.subarray(bytes.length - trailer));
+      expect(await reader.end()).toBe(true);
+    }
+  });
+
+  test('should pass callback errors through compressed input unchanged', async () => {
+    const binary = new Uint8Array(SimpleWriter.write(buildData(), { binary: true }) as ArrayBuffer);
+    class ThrowingReader extends Reader {
+      override object(): Request {
+        throw new Error('app callback bug');
+      }
+    }
+
+    for (const content of [binary, await gzip(binary)]) {
+      const reader = new ThrowingReader();
+      await reader.write(content);
+      expect(await reader.end()).toBe(false);
+      expect(reader.error?.code).toBe(ParseErrorCode.Internal);
+      expect(reader.error?.reason).toBe('app callback bug');
+    }
+  });
+
+  test('should report corrupt compressed input', async () => {
+    const compressed = await gzip(new Uint8Array(SimpleWriter.write(buildData(), { binary: true }) as ArrayBuffer));
+    compressed[compressed.length - 6] ^= 0xff;   // CRC
+    const reader = new SimpleReader();
+
+    expect(await reader.openStream(toStream(chunks(compressed, 16)))).toBe(false);
+    expect(reader.error).toBeInstanceOf(GTOFormatError);
+    expect(reader.error?.code).toBe(ParseErrorCode.Compression);
+    expect(reader.error?.message).toMatch(/checksum/);
+  });
+
+  test('should read text from an async iterable of strings', async () => {
+    const text = SimpleWriter.write(buildData()) as string;
+    async function* source() {
+      for (let i = 0; i < text.length; i += 10) {
+        yield text.slice(i, i + 10);
+      }
+    }
+    const reader = new SimpleReader();
+
+    expect(await reader.openStream(source())).toBe(true);
+    expect(reader.result).toEqual(expected());
+  });
+
+  test('should honor requests and HeaderOnly mode', async () => {
+    const binary = new Uint8Array(SimpleWriter.write(buildData(), { binary: true }) as ArrayBuffer);
+    const reads: Array<{ name: string; data: string[] }> = [];
+    class SkippingReader extends Reader {
+      override object(name: string): Request {
+        return name === 'second' ? Request.Read : Request.Skip;
+      }
+      override dataRead(info: PropertyInfo, data: number[]): void {
+        reads.push({ name: info.name, data: data.map(id => this.stringFromId(id)) });
+      }
+    }
+
+    // Skipped data must not shift the offsets of what follows
+    for (const size of [1, 5, 4096]) {
+      reads.length = 0;
+      const skipping = new SkippingReader();
+      expect(await skipping.openStream(toStream(chunks(binary, size)))).toBe(true);
+      expect(reads, `chunks of ${size}`).toEqual([{ name: 's', data: ['café', 'x { y } # z'] }]);
+    }
+
+    const headerOnly = new Reader(ReaderMode.HeaderOnly);
+    expect(await headerOnly.openStream(toStream(chunks(binary, 5)))).toBe(true);
+    expect(headerOnly.objects()).toEqual([]);
+  });
+
+  test('should report truncated binary input', async () => {
+    const binary = new Uint8Array(SimpleWriter.write(buildData(), { binary: true }) as ArrayBuffer);
+    const reader = new SimpleReader({ throwOnError: true });
+
+    await reader.write(binary.subarray(0, binary.length - 4));
+    const error = await reader.end().catch(e => e);
+
+    expect(error).toBeInstanceOf(GTOBinaryError);
+    expect(error.code).toBe(ParseErrorCode.Truncated);
+    expect(error.property).toBe('s');
+  });
+
+  test('should report text errors at their line in the file', async () => {
+    const text = 'GTOa (4)\n\na : P (1)\n{\n    c\n    {\n        int x = 1\n    }\n}\n\nb : P (1)\n{\n    c\n    {\n        int x = ?\n    }\n}\n';
+    const reader = new SimpleReader();
+
+    expect(await reader.openStream(toStream(chunks(new TextEncoder().encode(text), 4)), 'edited.rv')).toBe(false);
+
+    expect(reader.result.objects.map(o => o.name)).toEqual(['a', 'b']);
+    expect(reader.error?.code).toBe(ParseErrorCode.UnexpectedCharacter);
+    expect(reader.error?.line).toBe(15);
+    expect(reader.error?.column).toBe(17);
+  });
+});
+
+describe('readObjects', () => {
+  const buildData = () => new GTOBuilder()
+    .object('sourceGroup000000', 'RVSourceGroup', 1)
+      .component('ui')
+        .string('name', 'plate')
+      .end()
+    .end()
+    .object('sourceGroup000000_source', 'RVFileSource', 1)
+      .component('media')
+        .string('movie', 'plate.exr')
+      .end()
+      .component('group')
+        .float('fps', 24)
+      .end()
+    .end()
+    .object('sourceGroup000001_source', 'RVFileSource', 1)
+      .component('media')
+        .string('movie', 'ref.mov')
+      .end()
+    .end()
+    .build();
+
+  const collect = async <T>(items: AsyncIterable<T>): Promise<T[]> => {
+    const result: T[] = [];
+    for await (const item of items) result.push(item);
+    return result;
+  };
+
+  test('should yield every object of a text file', async () => {
+    const objects = await collect(readObjects(SimpleWriter.write(buildData()) as string));
+
+    expect(objects.map(o => o.name)).toEqual([
+      'sourceGroup000000',
+      'sourceGroup000000_source',
+      'sourceGroup000001_source'
+    ]);
+    expect(new ObjectDTO(objects[1]).prop('media', 'movie')).toBe('plate.exr');
+  });
+
+  test('should filter by protocol, name and components', async () => {
+    const binary = SimpleWriter.write(buildData(), { binary: true });
+
+    const sources = await collect(readObjects(binary, { protocol: 'RVFileSource', components: ['media'] }));
+    expect(sources.map(o => o.name)).toEqual(['sourceGroup000000_source', 'sourceGroup000001_source']);
+    expect(Object.keys(sources[0].components)).toEqual(['media']);
+
+    const named = await collect(readObjects(binary, { protocol: ['RVSourceGroup', 'RVFileSource'], name: /000001/ }));
+    expect(named.map(o => o.name)).toEqual(['sourceGroup000001_source']);
+  });
+
+  test('should yield objects while the stream is still arriving', async () => {
+    const binary = new Uint8Array(SimpleWriter.write(buildData(), { binary: true }) as ArrayBuffer);
+    let sent = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent >= binary.length) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(binary.slice(sent, sent + 8));
+        sent += 8;
+      }
+    }, { highWaterMark: 0 });
+
+    const iterator = readObjects(stream, { protocol: 'RVSourceGroup' });
+    const first = await iterator.next();
+
+    expect(first.value?.name).toBe('sourceGroup000000');
+    expect(sent).toBeLessThan(binary.length);
+    await iterator.return(undefined);
+  });
+
+  test('should throw parse errors', async () => {
+    await expect(collect(readObjects('GTOa (4)\n\nobj : P (1)\n{\n    c\n    {\n        int x = @\n    }\n}\n', {}, { name: 'bad.rv' })))
+      .rejects.toThrow(GTOSyntaxError);
+  });
+});
+
+describe('Transposed Data', () => {
+  /**
+   * Assemble a v4 file field by field, without Writer, holding one object
+   * 'mesh' with a component 'points' of float[3] 'position' and int 'id'
+   * The data is laid out as README "Transposed components" describes:
+   * position[0] id[0] position[1] id[1].
+   */
+  const buildTransposedFile = (options: { headerFlags?: number; componentFlags?: number; littleEndian?: boolean; idSize?: number }) => {
+    const { headerFlags = 0, componentFlags = 1, littleEndian = true, idSize = 2 } = options;
+    const strings = ['mesh', 'polygon', 'points', 'position', 'id'];
+    const stringBytes = new TextEncoder().encode(strings.join('\0') + '\0');
+    const positions = [[0, 1, 2], [3, 4, 5]];
+    const ids = [7, 9];
+    const size = 20 + stringBytes.length + 20 + 20 + 2 * 36 + 2 * (12 + 4);
+    const view = new DataView(new ArrayBuffer(size));
+    let offset = 0;
+    const u32 = (value: number) => { view.setUint32(offset, value, littleEndian); offset += 4; };
+
+    u32(0x29f); u32(strings.length); u32(1); u32(4); u32(headerFlags);
+    new Uint8Array(view.buffer).set(stringBytes, offset); offset += stringBytes.length;
+    u32(0); u32(1); u32(1); u32(1); u32(0);                     // object
+    u32(2); u32(0); u32(2); u32(componentFlags); u32(0);        // component
+    u32(3); u32(0); view.setUint8(offset, DataType.Float); offset += 4; u32(2); u32(3); u32(0); u32(0); u32(0); u32(0);
+    u32(4); u32(0); view.setUint8(offset, DataType.Int); offset += 4; u32(idSize); u32(1); u32(0); u32(0); u32(0); u32(0);
+    for (let i = 0; i < 2; i++) {
+      for (const value of positions[i]) { view.setFloat32(offset, value, littleEndian); offset += 4; }
+      view.setInt32(offset, ids[i], littleEndian); offset += 4;
+    }
+    return new Uint8Array(view.buffer);
+  };
+
+  const readPoints = (bytes: Uint8Array) => {
+    const reader = new SimpleReader();
+    expect(reader.open(bytes)).toBe(true);
+    return reader.result.objects[0].components.points;
+  };
+
+  test('should de-transpose components flagged as transposed', () => {
+    const points = readPoints(buildTransposedFile({}));
+
+    expect(points.transposed).toBe(true);
+    expect(points.properties.position.data).toEqual([[0, 1, 2], [3, 4, 5]]);
+    expect(points.properties.id.data).toEqual([7, 9]);
+  });
+
+  test('should honor the Transposed header flag for every component', () => {
+    const points = readPoints(buildTransposedFile({ headerFlags: HeaderFlags.Transposed, componentFlags: 0, littleEndian: false }));
+
+    expect(points.properties.position.data).toEqual([[0, 1, 2], [3, 4, 5]]);
+    expect(points.properties.id.data).toEqual([7, 9]);
+  });
+
+  test('should de-transpose in random access, typed array and streaming reads', async () => {
+    const bytes = buildTransposedFile({});
+
+    const random = new Reader(ReaderMode.RandomAccess);
+    random.open(bytes);
+    expect(random.readProperty(random.properties()[1])).toEqual([7, 9]);
+
+    const typed = new SimpleReader({ typedArrays: true });
+    typed.open(bytes);
+    expect(Array.from(typed.result.objects[0].components.points.properties.position.data as Float32Array))
+      .toEqual([0, 1, 2, 3, 4, 5]);
+
+    const streamed = new SimpleReader();
+    for (let i = 0; i < bytes.length; i += 3) {
+      await streamed.write(bytes.slice(i, i + 3));
+    }
+    expect(await streamed.end()).toBe(true);
+    expect(streamed.result.objects[0].components.points.properties.id.data).toEqual([7, 9]);
+  });
+
+  test('should reject transposed components with mismatched sizes', () => {
+    const reader = new Reader(ReaderMode.None, { throwOnError: true });
+
+    expect(() => reader.open(buildTransposedFile({ idSize: 3 }))).toThrow(GTOBinaryError);
+  });
+
+  test('should write transposed components element by element', () => {
+    const writer = new Writer();
+    writer.open(FileType.BinaryGTO);
+    writer.beginObject('mesh', 'polygon', 1);
+    writer.beginComponent('points', '', true);
+    writer.propertyWithData('position', DataType.Float, 2, 3, '', [0, 1, 2, 3, 4, 5]);
+    writer.propertyWithData('id', DataType.Int, 2, 1, '', [7, 9]);
+    writer.endComponent();
+    writer.endObject();
+    const bytes = new Uint8Array(writer.close() as ArrayBuffer);
+
+    // position[0] id[0] position[1] id[1]
+    const data = new DataView(bytes.buffer, bytes.length - 32);
+    const element = (offset: number) => [0, 4, 8].map(i => data.getFloat32(offset + i, true)).concat(data.getInt32(offset + 12, true));
+    expect([element(0), element(16)]).toEqual([[0, 1, 2, 7], [3, 4, 5, 9]]);
+
+    const reference = buildTransposedFile({});
+    expect(Array.from(bytes.slice(bytes.length - 32))).toEqual(Array.from(reference.slice(reference.length - 32)));
+  });
+
+  test('should round-trip the transposed flag through SimpleWriter', () => {
+    const data = readPointsData();
+    const binary = SimpleWriter.write(data, { binary: true });
+    const reader = new SimpleReader();
+    reader.open(binary);
+
+    expect(reader.result).toEqual(data);
+
+    function readPointsData() {
+      const source = new SimpleReader();
+      source.open(buildTransposedFile({}));
+      return source.result;
+    }
+  });
+
+  test('should refuse to transpose properties of different sizes', () => {
+    const writer = new Writer();
+    writer.open(FileType.BinaryGTO);
+    writer.beginObject('mesh', 'polygon', 1);
+    writer.beginComponent('points', '', true);
+    writer.propertyWithData('position', DataType.Float, 2, 3, '', [0, 1, 2, 3, 4, 5]);
+    writer.propertyWithData('id', DataType.Int, 1, 1, '', [7]);
+    writer.endComponent();
+    writer.endObject();
+
+    expect(() => writer.close()).toThrow(/Transposed component property 'id'/);
+  });
+});
+
+describe('Nested Components', () => {
+  const buildData = () => new GTOBuilder()
+    .object('stack', 'RVStack', 1)
+      .component('composite')
+        .string('type', 'over')
+        .component('layer', 'blend')
+          .float('opacity', 0.5)
+          .component('mask')
+            .int('enabled', 1)
+          .end()
+        .end()
+        .component('output')
+          .int('size', [1920, 1080])
+        .end()
+      .end()
+      .component('ui')
+        .string('name', 'Stack')
+      .end()
+    .end()
+    .build();
+
+  const nestedText = `GTOa (4)
+
+stack : RVStack (1)
+{
+    composite
+    {
+        string type = "over"
+        layer as blend
+        {
+            float opacity = 0.5
+            "mask"
+            {
+                int enabled = 1
+            }
+        }
+        output
+        {
+            int[2] size = [ 1920 1080 ]
+        }
+    }
+}
+`;
+
+  test('should build nested components', () => {
+    const composite = buildData().objects[0].components.composite;
+
+    expect(Object.keys(composite.properties)).toEqual(['type']);
+    expect(composite.components?.layer.interpretation).toBe('blend');
+    expect(composite.components?.layer.components?.mask.properties.enabled.data).toEqual([1]);
+    expect(buildData().objects[0].components.ui.components).toBeUndefined();
+  });
+
+  test('should parse nested components from text', () => {
+    const reader = new SimpleReader();
+    expect(reader.open(nestedText)).toBe(true);
+
+    const composite = reader.result.objects[0].components.composite;
+    expect(composite.properties.type.data).toEqual(['over']);
+    expect(composite.components?.layer.properties.opacity.data).toEqual([0.5]);
+    expect(composite.components?.layer.components?.mask.properties.enabled.data).toEqual([1]);
+    expect(composite.components?.output.properties.size.data).toEqual([[1920, 1080]]);
+
+    expect(reader.components().map(c => [c.name, c.childLevel, c.numProperties])).toEqual([
+      ['composite', 0, 1],
+      ['layer', 1, 1],
+      ['mask', 2, 1],
+      ['output', 1, 1]
+    ]);
+    expect(reader.objects()[0].numComponents).toBe(4);
+  });
+
+  test('should round-trip nested components through text and binary', () => {
+    const data = buildData();
+
+    for (const options of [{}, { binary: true }]) {
+      const reader = new SimpleReader();
+      reader.open(SimpleWriter.write(data, options));
+      expect(reader.result.objects).toEqual(data.objects);
+    }
+  });
+
+  test('should write childLevel into binary component headers', () => {
+    const reader = new Reader();
+    reader.open(SimpleWriter.write(buildData(), { binary: true }));
+
+    expect(reader.components().map(c => [c.name, c.childLevel])).toEqual([
+      ['composite', 0],
+      ['layer', 1],
+      ['mask', 2],
+      ['output', 1],
+      ['ui', 0]
+    ]);
+  });
+
+  test('should skip the children of skipped components', () => {
+    const seen: string[] = [];
+    class SkippingReader extends Reader {
+      override component(name: string): Request {
+        seen.push(name);
+        return name === 'layer' ? Request.Skip : Request.Read;
+      }
+    }
+
+    for (const content of [nestedText, SimpleWriter.write(buildData(), { binary: true })]) {
+      seen.length = 0;
+      new SkippingReader().open(content);
+      expect(seen).toEqual(['composite', 'layer', 'output'].concat(typeof content === 'string' ? [] : ['ui']));
+    }
+
+    const random = new SkippingReader(ReaderMode.RandomAccess);
+    random.open(SimpleWriter.write(buildData(), { binary: true }));
+    seen.length = 0;
+    random.accessObject(random.objects()[0]);
+    expect(seen).toEqual(['composite', 'layer', 'output', 'ui']);
+  });
+
+  test('should navigate nested components with ComponentDTO', () => {
+    const dto = new GTODTO(buildData());
+    const composite = dto.object('stack').component('composite');
+    const mask = composite.component('layer').component('mask');
+
+    expect(composite.children().map(c => c.name)).toEqual(['layer', 'output']);
+    expect(composite.hasComponent('output')).toBe(true);
+    expect(mask.prop('enabled')).toBe(1);
+    expect(mask.level).toBe(2);
+    expect((mask.parent as ComponentDTO).name).toBe('layer');
+    expect(mask.object?.name).toBe('stack');
+    expect(composite.parent).toBeInstanceOf(ObjectDTO);
+    expect(composite.component('missing').exists()).toBe(false);
+  });
+
+  test('should require properties before nested components', () => {
+    const writer = new Writer();
+    writer.open(FileType.TextGTO);
+    writer.beginObject('stack', 'RVStack', 1);
+    writer.beginComponent('composite');
+    writer.beginComponent('layer');
+    writer.endComponent();
+
+    expect(() => writer.propertyWithData('type', DataType.String, 1, 1, '', [0])).toThrow(/before nested components/);
+
+    const reader = new SimpleReader({ lenient: true });
+    reader.open(nestedText.replace('        output\n', '        int late = 1\n        output\n'));
+    expect(reader.diagnostics.map(d => d.component)).toEqual(['composite']);
+  });
+});
+
+describe('Multi-dimensional Properties', () => {
+  const identity = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+  const rows = [[1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 1, 0], [0, 0, 0, 1]];
+
+  const buildData = () => new GTOBuilder()
+    .object('xform', 'Transform', 1)
+      .component('object')
+        .shaped('globalMatrix', DataType.Float, [4, 4], identity)
+        .shaped('image', DataType.Int, [2, 2, 3], [[
+          [[1, 2, 3], [4, 5, 6]],
+          [[7, 8, 9], [10, 11, 12]]
+        ]])
+        .float3('position', [1, 2, 3])
+      .end()
+    .end()
+    .build();
+
+  test('should parse dims from text declarations', () => {
+    const reader = new SimpleReader();
+    reader.open(`GTOa (4)
+
+xform : Transform (1)
+{
+    object
+    {
+        float[4,4] globalMatrix = [ [ ${identity.join(' ')} ] ]
+    }
+}
+`);
+
+    const prop = reader.result.objects[0].components.object.properties.globalMatrix;
+    expect(prop.width).toBe(16);
+    expect(prop.size).toBe(1);
+    expect(prop.dims).toEqual([4, 4]);
+    expect(prop.data).toEqual([rows]);
+    expect(reader.properties()[0].dims).toEqual([4, 4, 1, 1]);
+  });
+
+  test('should build shaped properties', () => {
+    const props = buildData().objects[0].components.object.properties;
+
+    expect(props.globalMatrix).toMatchObject({ size: 1, width: 16, dims: [4, 4], data: [rows] });
+    expect(props.image).toMatchObject({ size: 1, width: 12, dims: [2, 2, 3] });
+    expect(props.position.dims).toBeUndefined();
+  });
+
+  test('should write dims in text declarations', () => {
+    const text = SimpleWriter.write(buildData()) as string;
+
+    expect(text).toContain('float[4,4] globalMatrix');
+    expect(text).toContain('int[2,2,3] image');
+    expect(text).toContain('float[3] position');
+  });
+
+  test('should round-trip dims through text and binary', () => {
+    const data = buildData();
+
+    for (const options of [{}, { binary: true }]) {
+      const reader = new SimpleReader();
+      reader.open(SimpleWriter.write(data, options));
+      expect(reader.result.objects).toEqual(data.objects);
+    }
+  });
+
+  test('should keep typed arrays flat and report dims', () => {
+    const reader = new SimpleReader({ typedArrays: true });
+    reader.open(SimpleWriter.write(buildData(), { binary: true }));
+
+    const prop = new GTODTO(reader.result).object('xform').component('object').property('globalMatrix');
+    expect(prop.dims).toEqual([4, 4]);
+    expect(prop.data).toEqual(new Float32Array(identity));
+  });
+
+  test('should reject dims that do not match the width', () => {
+    const writer = new Writer();
+    writer.open(FileType.TextGTO);
+    writer.beginObject('xform', 'Transform', 1);
+    writer.beginComponent('object');
+
+    expect(() => writer.propertyWithData('m', DataType.Float, 1, 9, '', identity, [4, 4])).toThrow(/dims \[4,4\]/);
+    expect(() => writer.propertyWithData('m', DataType.Float, 1, 32, '', identity, [2, 2, 2, 2, 2])).toThrow(/at most 4/);
+  });
+});
+
+describe('Int64 Values', () => {
+  const big = 9007199254740993n;          // 2^53 + 1, not representable as a number
+  const negative = -9223372036854775807n;
+
+  const text = `GTOa (4)
+
+clip : Clip (1)
+{
+    timing
+    {
+        int64 timestamps = [ ${big} ${negative} 42 ]
+        int64 hash = ${big}
+        int count = 9007199254740993
+    }
+}
+`;
+
+  test('should keep text int64 literals exact with bigInt', () => {
+    const reader = new SimpleReader({ bigInt: true });
+    expect(reader.open(text)).toBe(true);
+
+    const props = reader.result.objects[0].components.timing.properties;
+    expect(props.timestamps.data).toEqual([big, negative, 42n]);
+    expect(props.hash.data).toEqual([big]);
+    expect(props.count.data).toEqual([9007199254740992]);
+  });
+
+  test('should deliver numbers without bigInt', () => {
+    const reader = new SimpleReader();
+    reader.open(text);
+
+    expect(reader.result.objects[0].components.timing.properties.timestamps.data).toEqual([
+      Number(big), Number(negative), 42
+    ]);
+  });
+
+  test('should keep text int64 literals exact in typed arrays', () => {
+    const reader = new SimpleReader({ typedArrays: true });
+    reader.open(text);
+
+    expect(reader.result.objects[0].components.timing.properties.timestamps.data)
+      .toEqual(BigInt64Array.from([big, negative, 42n]));
+  });
+
+  test('should round-trip int64 exactly through text and binary', () => {
+    const data = new GTOBuilder()
+      .object('clip', 'Clip', 1)
+        .component('timing')
+          .int64('timestamps', [big, negative, 42])
+          .int64('hash', big)
+        .end()
+      .end()
+      .build();
+
+    expect(data.objects[0].components.timing.properties.timestamps.data).toEqual([big, negative, 42n]);
+
+    for (const options of [{}, { binary: true }]) {
+      const reader = new SimpleReader({ bigInt: true });
+      reader.open(SimpleWriter.write(data, options));
+      expect(reader.result.objects).toEqual(data.objects);
+
+      const dto = new GTODTO(reader.result);
+      expect(dto.object('clip').component('timing').prop('hash')).toBe(big);
+    }
+  });
+
+  test('should read binary int64 as bigint in random access', () => {
+    const data = new GTOBuilder()
+      .object('clip', 'Clip', 1)
+        .component('timing')
+          .int64('hash', [big, 1])
+        .end()
+      .end()
+      .build();
+
+    const reader = new Reader(ReaderMode.RandomAccess, { bigInt: true });
+    reader.open(SimpleWriter.write(data, { binary: true }));
+    expect(reader.readProperty(reader.properties()[0])).toEqual([big, 1n]);
+  });
+});
+
+describe('Compression', () => {
+  const buildData = () => new GTOBuilder()
+    .object('mesh', 'polygon', 2)
+      .component('points')
+        .float3('position', Array.from({ length: 300 }, (_, i) => [i, i * 2, i % 7]))
+        .string('name', 'compressed')
+      .end()
+    .end()
+    .build();
+
+  const compress = async (bytes: Uint8Array, format: CompressionFormat): Promise<Uint8Array> => {
+    const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream(format));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  };
+
+  const binary = () => new Uint8Array(SimpleWriter.write(buildData(), { binary: true }) as ArrayBuffer);
+
+  test('should open gzip and deflate data synchronously', async () => {
+    for (const format of ['gzip', 'deflate'] as const) {
+      const reader = new SimpleReader();
+      expect(reader.open(await compress(binary(), format))).toBe(true);
+      expect(reader.result.objects).toEqual(buildData().objects);
+    }
+  });
+
+  test('should open gzip-compressed text files', () => {
+    const text = new TextEncoder().encode(SimpleWriter.write(buildData()) as string);
+    const reader = new SimpleReader();
+
+    expect(reader.open(gzip(text))).toBe(true);
+    expect(reader.result.objects).toEqual(buildData().objects);
+  });
+
+  test('should write gzip that other decompressors read', async () => {
+    const data = binary();
+    const compressed = gzip(data);
+    expect(compressed.length).toBeLessThan(data.length);
+
+    const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('gzip'));
+    expect(new Uint8Array(await new Response(stream).arrayBuffer())).toEqual(data);
+    expect(gunzip(compressed)).toEqual(data);
+  });
+
+  test('should use a custom decompressor', async () => {
+    const formats: string[] = [];
+    const options = {
+      decompress: (data: Uint8Array, format: CompressionFormat) => {
+        formats.push(format);
+        return gunzip(data);
+      }
+    };
+    const compressed = gzip(binary());
+
+    expect(new SimpleReader(options).open(compressed)).toBe(true);
+    expect(await new SimpleReader(options).openAsync(compressed)).toBe(true);
+
+    const streaming = new SimpleReader(options);
+    streaming.beginStream();
+    for (let i = 0; i < compressed.length; i += 100) {
+      await streaming.write(compressed.slice(i, i + 100));
+    }
+    expect(await streaming.end()).toBe(true);
+    expect(streaming.result.objects).toEqual(buildData().objects);
+    expect(formats).toEqual(['gzip', 'gzip', 'gzip']);
+  });
+
+  test('should decompress chunk by chunk', async () => {
+    // Pseudo-random bytes do not compress, so gzip() stores them
+    let seed = 1;
+    const noise = Uint8Array.from({ length: 70000 }, () => (seed = Math.imul(seed, 48271) % 0x7fffffff) & 0xff);
+    const cases: Array<[Uint8Array, CompressionFormat, Uint8Array]> = [
+      [gzip(binary()), 'gzip', binary()],
+      [await compress(binary(), 'gzip'), 'gzip', binary()],
+      [await compress(binary(), 'deflate'), 'deflate', binary()],
+      [gzip(noise), 'gzip', noise],
+      [new Uint8Array([...gzip(noise.subarray(0, 10)), ...gzip(binary())]), 'gzip', new Uint8Array([...noise.subarray(0, 10), ...binary()])]
+    ];
+
+    for (const [compressed, format, expected] of cases) {
+      for (const size of [1, 1000]) {
+        const decompressor = new IncrementalDecompressor(format);
+        const parts: number[] = [];
+        for (let i = 0; i < compressed.length; i += size) {
+          parts.push(...decompressor.push(compressed.subarray(i, i + size)));
+        }
+        decompressor.end();
+        expect(new Uint8Array(parts)).toEqual(expected);
+      }
+    }
+
+    const truncated = new IncrementalDecompressor('gzip');
+    truncated.push(gzip(binary()).subarray(0, 100));
+    expect(() => truncated.end()).toThrow('Unexpected end of compressed data');
+  });
+
+  test('should stop decompressing past maxBytes', async () => {
+    const zeros = new Uint8Array(1 << 22);
+    const cases: Array<[Uint8Array, CompressionFormat]> = [
+      [gzip(zeros), 'gzip'],
+      [await compress(zeros, 'deflate'), 'deflate'],
+      [new Uint8Array([...gzip(zeros.subarray(0, 600)), ...gzip(zeros.subarray(0, 600))]), 'gzip']
+    ];
+
+    for (const [compressed, format] of cases) {
+      expect(() => (format === 'gzip' ? gunzip : unzlib)(compressed, 1000)).toThrow(DecompressedSizeError);
+      const decompressor = new IncrementalDecompressor(format, 1000);
+      expect(() => decompressor.push(compressed)).toThrow('Decompressed data exceeds 1000 bytes');
+    }
+    expect(gunzip(gzip(zeros.subarray(0, 1000)), 1000)).toEqual(zeros.subarray(0, 1000));
+  });
+
+  test('should report corrupt compressed data', () => {
+    const compressed = gzip(binary());
+    compressed[compressed.length - 6] ^= 0xff;   // CRC
+
+    const reader = new SimpleReader();
+    expect(reader.open(compressed)).toBe(false);
+    expect(reader.error).toBeInstanceOf(GTOFormatError);
+    expect(reader.error?.code).toBe(ParseErrorCode.Compression);
+    expect(reader.error?.message).toMatch(/checksum/);
+  });
+});
+
+describe('Compressed Output', () => {
+  const buildData = () => new GTOBuilder()
+    .object('mesh', 'polygon', 2)
+      .component('points')
+        .float3('position', Array.from({ length: 200 }, (_, i) => [i, 0, 1]))
+      .end()
+    .end()
+    .build();
+
+  test('should write gzip-compressed binary with Writer', () => {
+    const writer = new Writer();
+    writer.open(FileType.CompressedGTO);
+    writer.beginObject('mesh', 'polygon', 2);
+    writer.beginComponent('points');
+    writer.propertyWithData('position', DataType.Float, 2, 3, '', [0, 0, 0, 1, 2, 3]);
+    writer.endComponent();
+    writer.endObject();
+
+    const output = new Uint8Array(writer.close() as ArrayBuffer);
+    expect([output[0], output[1]]).toEqual([0x1f, 0x8b]);
+
+    const reader = new SimpleReader();
+    expect(reader.open(output)).toBe(true);
+    expect(reader.result.objects[0].components.points.properties.position.data).toEqual([[0, 0, 0], [1, 2, 3]]);
+  });
+
+  test('should round-trip compressed output from SimpleWriter', async () => {
+    const data = buildData();
+    const sync = SimpleWriter.write(data, { compressed: true }) as ArrayBuffer;
+    const async = await SimpleWriter.writeAsync(data, { compressed: true }) as ArrayBuffer;
+
+    expect(sync.byteLength).toBeLessThan((SimpleWriter.write(data, { binary: true }) as ArrayBuffer).byteLength);
+    for (const output of [sync, async]) {
+      const reader = new SimpleReader();
+      expect(reader.open(output)).toBe(true);
+      expect(reader.result.objects).toEqual(data.objects);
+    }
+  });
+
+  test('should use a custom compressor', () => {
+    let calls = 0;
+    const output = SimpleWriter.write(buildData(), {
+      compressed: true,
+      compress: bytes => {
+        calls++;
+        return gzip(bytes);
+      }
+    });
+
+    expect(calls).toBe(1);
+    expect(new SimpleReader().open(output)).toBe(true);
+  });
+});
+
+describe('Byte Order', () => {
+  const buildData = () => new GTOBuilder()
+    .object('mesh', 'polygon', 2)
+      .component('points')
+        .float3('position', [[0, 1.5, -2], [3, 4, 5]])
+        .double('weight', [0.25, 1e-300])
+        .int('id', [7, -9])
+        .int64('serial', [1n, -(2n ** 60n)])
+        .string('tag', ['a', 'b'])
+      .end()
+    .end()
+    .build();
+
+  test('should write big-endian binary', () => {
+    const data = buildData();
+    const output = new Uint8Array(SimpleWriter.write(data, { binary: true, byteOrder: 'big' }) as ArrayBuffer);
+    expect(new DataView(output.buffer).getUint32(0, false)).toBe(0x29f);
+
+    const reader = new SimpleReader({ bigInt: true });
+    expect(reader.open(output)).toBe(true);
+    expect(reader.fileHeader.byteOrder).toBe('big');
+    expect(reader.result.objects).toEqual(data.objects);
+  });
+
+  test('should report the byte order on Header', () => {
+    const orders: Array<string | null> = [];
+    class HeaderReader extends Reader {
+      override header(header: Header): void {
+        orders.push(header.byteOrder);
+      }
+    }
+    const data = buildData();
+
+    new HeaderReader().open(SimpleWriter.write(data, { binary: true }));
+    new HeaderReader().open(SimpleWriter.write(data, { binary: true, byteOrder: 'big' }));
+    new HeaderReader().open(SimpleWriter.write(data));
+
+    expect(orders).toEqual(['little', 'big', null]);
+  });
+
+  test('should round-trip big-endian files byte for byte', () => {
+    const original = new Uint8Array(SimpleWriter.write(buildData(), { binary: true, byteOrder: 'big' }) as ArrayBuffer);
+    const reader = new SimpleReader({ bigInt: true });
+    reader.open(original);
+
+    const byteOrder = reader.fileHeader.byteOrder ?? undefined;
+    const rewritten = new Uint8Array(SimpleWriter.write(reader.result, { binary: true, byteOrder }) as ArrayBuffer);
+
+    expect(rewritten).toEqual(original);
+  });
+
+  test('should use the host byte order for native', () => {
+    const data = buildData();
+    const native = SimpleWriter.write(data, { binary: true, byteOrder: 'native' });
+    const host = SimpleWriter.write(data, { binary: true, byteOrder: isLittleEndian() ? 'little' : 'big' });
+
+    expect(new Uint8Array(native as ArrayBuffer)).toEqual(new Uint8Array(host as ArrayBuffer));
+  });
+
+  test('should reject unknown byte orders', () => {
+    expect(() => new Writer({ byteOrder: 'middle' as 'big' })).toThrow('Unknown byte order: middle');
+  });
+});
+
+describe('Legacy Versions', () => {
+  const buildData = () => new GTOBuilder()
+    .object('mesh', 'polygon', 2)
+      .component('points')
+        .float3('position', [[0, 1, 2], [3, 4, 5]])
+        .string('tag', ['a', 'b'])
+      .end()
+      .component('info', 'meta')
+        .int('count', 2)
+      .end()
+    .end()
+    .build();
+
+  test('should write the v3 binary layout', () => {
+    const writer = new Writer({ version: 3 });
+    writer.open(FileType.BinaryGTO);
+    writer.beginObject('mesh', 'polygon', 1);
+    writer.beginComponent('points');
+    writer.propertyWithData('id', DataType.Int, 2, 1, '', [7, 9]);
+    writer.endComponent();
+    writer.endObject();
+    const output = new Uint8Array(writer.close() as ArrayBuffer);
+
+    // 16-byte component and 20-byte property headers, no childLevel or dims
+    const stringBytes = new TextEncoder().encode('mesh\0polygon\0points\0id\0');
+    const view = new DataView(new ArrayBuffer(20 + stringBytes.length + 20 + 16 + 20 + 8));
+    let offset = 0;
+    const u32 = (value: number) => { view.setUint32(offset, value, true); offset += 4; };
+    u32(0x29f); u32(4); u32(1); u32(3); u32(0);
+    new Uint8Array(view.buffer).set(stringBytes, offset); offset += stringBytes.length;
+    u32(0); u32(1); u32(1); u32(1); u32(0);                     // object
+    u32(2); u32(0); u32(1); u32(0);                             // component
+    u32(3); u32(0); view.setUint8(offset, DataType.Int); offset += 4; u32(2); u32(1);
+    u32(7); u32(9);
+
+    expect(output).toEqual(new Uint8Array(view.buffer));
+  });
+
+  test.each([2, 3])('should round-trip v%i binary through SimpleWriter', (version) => {
+    const data = buildData();
+    for (const byteOrder of ['little', 'big'] as const) {
+      const reader = new SimpleReader();
+      expect(reader.open(SimpleWriter.write(data, { binary: true, version, byteOrder }))).toBe(true);
+      expect(reader.result.version).toBe(version);
+      expect(reader.result.objects).toEqual(data.objects);
+    }
+  });
+
+  test('should write the version in the text header', () => {
+    const text = SimpleWriter.write(buildData(), { version: 3 }) as string;
+    expect(text.startsWith('GTOa (3)')).toBe(true);
+  });
+
+  test('should reject nested components before v4', () => {
+    const data = new GTOBuilder()
+      .object('node', 'transform', 1)
+        .component('outer')
+          .component('inner')
+            .int('x', 1)
+          .end()
+        .end()
+      .end()
+      .build();
+
+    expect(() => SimpleWriter.write(data, { binary: true, version: 3 }))
+      .toThrow("Nested component 'inner' requires GTO version 4, but version 3 is being written");
+    expect(() => SimpleWriter.write(data, { binary: true })).not.toThrow();
+  });
+
+  test('should reject dims before v4', () => {
+    const writer = new Writer({ version: 2 });
+    writer.open(FileType.BinaryGTO);
+    writer.beginObject('node', 'transform', 1);
+    writer.beginComponent('object');
+
+    expect(() => writer.propertyWithData('matrix', DataType.Float, 1, 16, '', new Array(16).fill(0), [4, 4]))
+      .toThrow("Property 'matrix' with dims [4,4] requires GTO version 4, but version 2 is being written");
+    expect(() => writer.propertyWithData('flat', DataType.Float, 1, 16, '', new Array(16).fill(0))).not.toThrow();
+  });
+
+  test('should reject unsupported versions', () => {
+    expect(() => new Writer({ version: 1 })).toThrow('Unsupported GTO version: 1');
+    expect(() => new Writer({ version: 5 })).toThrow('Unsupported GTO version: 5');
+  });
+});
+
+describe('Streaming Writer', () => {
+  const positions = Array.from({ length: 1000 }, (_, i) => [i, i * 0.5, -i]);
+
+  // The same file through the in-memory writer
+  const writeSession = (writer: Writer, type: FileType) => {
+    writer.open(type);
+    writer.beginObject('mesh', 'polygon', 2);
+    writer.beginComponent('points');
+    writer.propertyWithData('position', DataType.Float, positions.length, 3, '', positions);
+    writer.propertyWithData('tag', DataType.String, 2, 1, '', [writer.intern('a'), writer.intern('b')]);
+    writer.endComponent();
+    writer.beginComponent('interleaved', '', true);
+    writer.propertyWithData('id', DataType.Int, 2, 1, '', [7, 9]);
+    writer.propertyWithData('weight', DataType.Double, 2, 1, '', [0.5, 1.5]);
+    writer.endComponent();
+    writer.endObject();
+  };
+
+  const concat = (chunks: Uint8Array[]) => {
+    const bytes = new Uint8Array(chunks.reduce((n, chunk) => n + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return bytes;
+  };
+
+  test('should stream text in chunks to a callback', async () => {
+    const writeObjects = (writer: Writer) => {
+      writer.open(FileType.TextGTO);
+      for (let i = 0; i < 100; i++) {
+        writer.beginObject(`mesh${i}`, 'polygon', 2);
+        writer.beginComponent('points');
+        writer.propertyWithData('position', DataType.Float, 100, 3, '', positions.slice(0, 100));
+        writer.endComponent();
+        writer.endObject();
+      }
+    };
+    const expected = new Writer();
+    writeObjects(expected);
+    const chunks: Uint8Array[] = [];
+    const writer = new StreamWriter(chunk => { chunks.push(chunk); });
+    writeObjects(writer);
+
+    // Everything but the last partial chunk is out before end()
+    await writer.flush();
+    expect(chunks.length).toBeGreaterThan(1);
+    await writer.end();
+    expect(new TextDecoder().decode(concat(chunks))).toBe(expected.close());
+  });
+
+  test('should stream binary declared up front to a WritableStream', async () => {
+    const expected = new Writer({ byteOrder: 'big' });
+    writeSession(expected, FileType.BinaryGTO);
+    const chunks: Uint8Array[] = [];
+    const writer = new StreamWriter(new WritableStream({ write: chunk => { chunks.push(chunk); } }), { byteOrder: 'big' });
+
+    writer.open(FileType.BinaryGTO);
+    writer.beginObject('mesh', 'polygon', 2);
+    writer.beginComponent('points');
+    writer.property('position', DataType.Float, positions.length, 3);
+    writer.intern(['a', 'b']);
+    writer.property('tag', DataType.String, 2);
+    writer.endComponent();
+    writer.beginComponent('interleaved', '', true);
+    writer.property('id', DataType.Int, 2);
+    writer.propertyWithData('weight', DataType.Double, 2, 1, '', [0.5, 1.5]);
+    writer.endComponent();
+    writer.endObject();
+
+    writer.beginData();
+    await writer.flush();
+    const headerChunks = chunks.length;
+    expect(headerChunks).toBe(1);
+
+    writer.propertyData(positions);
+    await writer.flush();
+    expect(chunks.length).toBe(headerChunks + 1);
+
+    writer.propertyData(['a', 'b']);
+    writer.propertyData([7, 9]);
+    await writer.end();
+
+    expect(concat(chunks)).toEqual(new Uint8Array(expected.close() as ArrayBuffer));
+  });
+
+  test('should write compressed binary to a Node stream', async () => {
+    const chunks: Buffer[] = [];
+    const sink = new NodeWritable({
+      write(chunk, _encoding, callback) {
+        chunks.push(chunk);
+        callback();
+      }
+    });
+    const writer = new StreamWriter(sink);
+    writeSession(writer, FileType.CompressedGTO);
+    await writer.end();
+
+    const bytes = new Uint8Array(Buffer.concat(chunks));
+    expect([bytes[0], bytes[1]]).toEqual([0x1f, 0x8b]);
+    const reader = new SimpleReader();
+    expect(reader.open(bytes)).toBe(true);
+    expect(reader.result.objects[0].components.points.properties.position.data).toEqual(positions);
+    expect(reader.result.objects[0].components.interleaved.properties.weight.data).toEqual([0.5, 1.5]);
+  });
+
+  test('should report misuse of the data phase', async () => {
+    const writer = new StreamWriter(() => {});
+    writer.open(FileType.BinaryGTO);
+    writer.beginObject('mesh', 'polygon', 1);
+    writer.beginComponent('points');
+    writer.property('id', DataType.Int, 2);
+    writer.property('tag', DataType.String, 1);
+    writer.property('extra', DataType.Int, 1);
+
+    expect(() => writer.beginData()).toThrow('All objects must be ended before beginData()');
+    writer.endComponent();
+    writer.endObject();
+    expect(() => writer.propertyData([1, 2])).toThrow('beginData() must be called before propertyData()');
+
+    writer.beginData();
+    expect(() => writer.propertyData([1])).toThrow("Property 'id' needs 2 values but got 1");
+    writer.propertyData([1, 2]);
+    expect(() => writer.propertyData(['late'])).toThrow("String 'late' of property 'tag' must be interned before beginData()");
+    await expect(writer.end()).rejects.toThrow("Missing data for property 'tag'");
+    expect(() => writer.close()).toThrow('call end() instead');
+  });
+
+  test('should surface sink errors from flush()', async () => {
+    const writer = new StreamWriter(() => { throw new Error('disk full'); });
+    writeSession(writer, FileType.TextGTO);
+    await expect(writer.end()).rejects.toThrow('disk full');
+  });
+});
+
+describe('Text Formatting', () => {
+  const writeMesh = (format: object) => {
+    const writer = new Writer();
+    writer.open(FileType.TextGTO, format);
+    writer.beginObject('mesh', 'polygon', 1);
+    writer.beginComponent('points');
+    writer.propertyWithData('position', DataType.Float, 3, 3, '', [0, 1, 2, 3, 4, 5, 6, 7, 8]);
+    writer.propertyWithData('id', DataType.Int, 5, 1, '', [1, 2, 3, 4, 5]);
+    writer.propertyWithData('count', DataType.Int, 1, 1, '', [5]);
+    writer.endComponent();
+    writer.endObject();
+    return writer.close() as string;
+  };
+
+  test('should keep the default layout without options', () => {
+    expect(writeMesh({})).toBe(
+      'GTOa (4)\n\nmesh : polygon (1)\n{\n    points\n    {\n' +
+      '        float[3] position = [ [ 0.0 1.0 2.0 ] [ 3.0 4.0 5.0 ] [ 6.0 7.0 8.0 ] ]\n' +
+      '        int id = [ 1 2 3 4 5 ]\n' +
+      '        int count = 5\n' +
+      '    }\n\n}\n\n'
+    );
+  });
+
+  test('should apply indent, values per line, brackets and explicit sizes', () => {
+    const text = writeMesh({ indent: '\t', maxValuesPerLine: 6, bracketSingleValues: true, explicitSize: true });
+    expect(text).toBe(
+      'GTOa (4)\n\nmesh : polygon (1)\n{\n\tpoints\n\t{\n' +
+      '\t\tfloat[3][3] position = [\n\t\t\t[ 0.0 1.0 2.0 ] [ 3.0 4.0 5.0 ]\n\t\t\t[ 6.0 7.0 8.0 ]\n\t\t]\n' +
+      '\t\tint[1][5] id = [ 1 2 3 4 5 ]\n' +
+      '\t\tint[1][1] count = [ 5 ]\n' +
+      '\t}\n\n}\n\n'
+    );
+
+    const reader = new SimpleReader();
+    expect(reader.open(text)).toBe(true);
+    expect(reader.diagnostics).toEqual([]);
+    expect(reader.result.objects[0].components.points.properties.position.data).toEqual([[0, 1, 2], [3, 4, 5], [6, 7, 8]]);
+    expect(reader.result.objects[0].components.points.properties.count.data).toEqual([5]);
+  });
+
+  test('should write shortest round-trip floats for each type', () => {
+    const data = new GTOBuilder()
+      .object('node', 'transform', 1)
+        .component('values')
+          .float('f', [Math.fround(0.1), Math.fround(1 / 3)])
+          .double('d', [0.1, 1 / 3])
+        .end()
+      .end()
+      .build();
+
+    const text = SimpleWriter.write(data, { format: { shortestFloats: true } }) as string;
+    expect(text).toContain('float f = [ 0.1 0.33333334 ]');
+    expect(text).toContain('double d = [ 0.1 0.3333333333333333 ]');
+
+    const reader = new SimpleReader({ typedArrays: true });
+    reader.open(text);
+    const values = reader.result.objects[0].components.values.properties;
+    expect(Array.from(values.f.data as Float32Array)).toEqual([Math.fround(0.1), Math.fround(1 / 3)]);
+    expect(Array.from(values.d.data as Float64Array)).toEqual([0.1, 1 / 3]);
+  });
+
+  test('should round floats to a fixed precision', () => {
+    const writer = new Writer();
+    writer.open(FileType.TextGTO, { floatPrecision: 3 });
+    writer.beginObject('node', 'transform', 1);
+    writer.beginComponent('values');
+    writer.propertyWithData('x', DataType.Double, 3, 1, '', [Math.PI, 2.0001, 123456]);
+    writer.endComponent();
+    writer.endObject();
+
+    expect(writer.close()).toContain('double x = [ 3.14 2.0 123000.0 ]');
+  });
+});
+
+describe('Canonical Output', () => {
+  const session = (reversed: boolean) => {
+    const objects = [
+      new GTOBuilder()
+        .object('sourceGroup', 'RVSourceGroup', 1)
+          .component('ui')
+            .string('name', 'plate')
+          .end()
+          .component('attributes', 'amap')
+            .float('gain', Math.fround(1.1))
+            .int('frame', 12)
+          .end()
+        .end()
+        .build().objects[0],
+      new GTOBuilder()
+        .object('defaultLayout', 'RVLayoutGroup', 1)
+          .component('layout')
+            .string('mode', ['grid', 'packed'])
+          .end()
+        .end()
+        .build().objects[0]
+    ];
+    const data = { version: 4, objects };
+    if (reversed) {
+      data.objects = [...objects].reverse();
+      for (const obj of data.objects) {
+        obj.components = Object.fromEntries(Object.entries(obj.components).reverse());
+        for (const component of Object.values(obj.components)) {
+          component.properties = Object.fromEntries(Object.entries(component.properties).reverse());
+        }
+      }
+    }
+    return data;
+  };
+
+  test('should sort objects, components and properties', () => {
+    const canonical = canonicalize(session(false));
+
+    expect(canonical.objects.map(obj => obj.name)).toEqual(['defaultLayout', 'sourceGroup']);
+    expect(Object.keys(canonical.objects[1].components)).toEqual(['attributes', 'ui']);
+    expect(Object.keys(canonical.objects[1].components.attributes.properties)).toEqual(['frame', 'gain']);
+  });
+
+  test('should not modify its input', () => {
+    const data = session(false);
+    const before = JSON.stringify(data);
+    canonicalize(data);
+    expect(JSON.stringify(data)).toBe(before);
+  });
+
+  test('should write equal data identically in any order', () => {
+    for (const options of [{}, { binary: true }] as const) {
+      const a = SimpleWriter.write(session(false), { ...options, canonical: true });
+      const b = SimpleWriter.write(session(true), { ...options, canonical: true });
+      expect(typeof a === 'string' ? a : new Uint8Array(a)).toEqual(typeof b === 'string' ? b : new Uint8Array(b as ArrayBuffer));
+    }
+  });
+
+  test('should write shortest floats and a sorted string table', () => {
+    const text = SimpleWriter.write(session(false), { canonical: true }) as string;
+    expect(text).toContain('float gain = 1.1');
+
+    const reader = new SimpleReader();
+    expect(reader.open(SimpleWriter.write(session(true), { binary: true, canonical: true }))).toBe(true);
+    const strings = reader.stringTable();
+    expect(strings[0]).toBe('');
+    expect(strings).toEqual([...strings].sort());
+
+    // 'amap' sorts before every name but is still read as an interpretation
+    expect(reader.result.objects[1].components.attributes.interpretation).toBe('amap');
+    expect(reader.result.objects).toEqual(canonicalize(session(false)).objects);
+  });
+  test('should sort string data whatever the type is spelled as', () => {
+    const property = (type: string | DataType, data: string[]) =>
+      ({ type: type as string, size: data.length, width: 1, interpretation: '', data });
+    const data = {
+      version: 4,
+      objects: [{
+        name: 'o',
+        protocol: 'p',
+        protocolVersion: 1,
+        components: {
+          c: {
+            interpretation: '',
+            properties: { s: property(DataType.String, ['zeta', 'alpha']), t: property('String', ['mid']) }
+          }
+        }
+      }]
+    };
+
+    const reader = new SimpleReader();
+    expect(reader.open(SimpleWriter.write(data, { binary: true, canonical: true }))).toBe(true);
+    expect(reader.stringTable()).toEqual(['', 'alpha', 'c', 'mid', 'o', 'p', 's', 't', 'zeta']);
+    expect(reader.result.objects[0].components.c.properties.s.data).toEqual(['zeta', 'alpha']);
+  });
+});
+
+describe('Strict Writing', () => {
+  const writeProperty = (type: DataType, size: number, width: number, data: unknown[], binary = true) => {
+    const writer = new Writer({ strict: true });
+    writer.open(binary ? FileType.BinaryGTO : FileType.TextGTO);
+    writer.beginObject('mesh', 'polygon', 1);
+    writer.beginComponent('outer');
+    writer.beginComponent('points');
+    writer.propertyWithData('values', type, size, width, '', data as number[]);
+    writer.endComponent();
+    writer.endComponent();
+    writer.endObject();
+    return writer.close();
+  };
+
+  test('should reject value counts that do not match the declaration', () => {
+    expect(() => writeProperty(DataType.Float, 2, 3, [0, 1, 2, 3, 4]))
+      .toThrow("Invalid data for object 'mesh', component 'outer.points', property 'values': declared 2 x 3 values but got 5");
+  });
+
+  test('should range-check each data type', () => {
+    expect(() => writeProperty(DataType.Byte, 2, 1, [1, 300])).toThrow('value 300 at index 1 is out of range for byte (0 to 255)');
+    expect(() => writeProperty(DataType.Short, 1, 1, [-1])).toThrow('value -1 at index 0 is out of range for short (0 to 65535)');
+    expect(() => writeProperty(DataType.Int, 1, 1, [1.5])).toThrow('value 1.5 at index 0 is not an integer');
+    expect(() => writeProperty(DataType.Int, 1, 1, [2 ** 31])).toThrow('is out of range for int');
+    expect(() => writeProperty(DataType.Int64, 1, 1, [2n ** 63n])).toThrow('is out of range for int64');
+    expect(() => writeProperty(DataType.Half, 1, 1, [70000])).toThrow('value 70000 at index 0 is out of range for half');
+    expect(() => writeProperty(DataType.Float, 1, 1, [NaN])).toThrow('is out of range for float');
+    expect(() => writeProperty(DataType.Boolean, 1, 1, [2])).toThrow('is not a boolean');
+    expect(() => writeProperty(DataType.Int, 2, 1, [1, 2])).not.toThrow();
+  });
+
+  test('should verify string ids against the string table', () => {
+    expect(() => writeProperty(DataType.String, 1, 1, [99])).toThrow('value 99 at index 0 is not a string table id');
+    expect(() => writeProperty(DataType.String, 1, 1, ['raw'])).toThrow("value 'raw' at index 0 is not a string table id");
+    expect(() => writeProperty(DataType.String, 1, 1, ['raw'], false)).not.toThrow();
+    expect(() => writeProperty(DataType.String, 1, 1, [0])).not.toThrow();
+  });
+
+  test('should leave validation off by default', () => {
+    const writer = new Writer();
+    writer.open(FileType.BinaryGTO);
+    writer.beginObject('mesh', 'polygon', 1);
+    writer.beginComponent('points');
+    expect(() => writer.propertyWithData('values', DataType.Byte, 1, 1, '', [300])).not.toThrow();
+  });
+
+  test('should validate two-phase and streamed data', async () => {
+    const writer = new Writer({ strict: true });
+    writer.open(FileType.TextGTO);
+    writer.beginObject('mesh', 'polygon', 1);
+    writer.beginComponent('points');
+    writer.property('id', DataType.Int, 2);
+    writer.beginData();
+    expect(() => writer.propertyData([1])).toThrow("object 'mesh', component 'points', property 'id': declared 2 x 1 values but got 1");
+
+    const stream = new StreamWriter(() => {}, { strict: true });
+    stream.open(FileType.BinaryGTO);
+    stream.beginObject('mesh', 'polygon', 1);
+    stream.beginComponent('points');
+    stream.property('flags', DataType.Byte, 1);
+    stream.endComponent();
+    stream.endObject();
+    stream.beginData();
+    expect(() => stream.propertyData([256])).toThrow("object 'mesh', component 'points', property 'flags': value 256");
+  });
+
+  test('should validate SimpleWriter data and type names', () => {
+    const data = new GTOBuilder()
+      .object('mesh', 'polygon', 1)
+        .component('points')
+          .int('id', [1, 2])
+        .end()
+      .end()
+      .build();
+    expect(() => SimpleWriter.write(data, { binary: true, strict: true })).not.toThrow();
+
+    data.objects[0].components.points.properties.id.size = 3;
+    expect(() => SimpleWriter.write(data, { strict: true })).toThrow('declared 3 x 1 values but got 2');
+
+    data.objects[0].components.points.properties.id.type = 'integer';
+    expect(() => SimpleWriter.write(data, { strict: true }))
+      .toThrow("Unknown type 'integer' for object 'mesh', component 'points', property 'id'");
+  });
+});
+
+describe('Quoted Names', () => {
+  const names = ['my object', 'proto:col', 'as', '1st', '-x', '', 'tab\there', 'quote"back\\slash', 'bell\u0007', 'café \u{1F600}'];
+
+  test('should round-trip any name in every position', () => {
+    for (const name of names) {
+      const data = {
+        version: 4,
+        objects: [{
+          name,
+          protocol: name,
+          protocolVersion: 1,
+          components: {
+            [name]: {
+              interpretation: name,
+              properties: {
+                [name]: { type: 'string', size: 1, width: 1, interpretation: name, data: [name] }
+              },
+              components: {
+                [name + '!']: {
+                  interpretation: '',
+                  properties: { x: { type: 'int', size: 1, width: 1, interpretation: '', data: [1] } }
+                }
+              }
+            }
+          }
+        }]
+      };
+      const text = SimpleWriter.write(data) as string;
+      const reader = new SimpleReader();
+
+      expect(reader.open(text), `${JSON.stringify(name)}:\n${text}`).toBe(true);
+      expect(reader.result.objects).toEqual(data.objects);
+    }
+  });
+
+  test('should only quote names that are not identifiers', () => {
+    const writer = new Writer();
+    writer.open(FileType.TextGTO);
+    writer.beginObject('plain.name-1', 'RVSession', 1);
+    writer.beginComponent('my comp', 'some interp');
+    writer.propertyWithData('value', DataType.Int, 1, 1, 'as', [1]);
+    writer.endComponent();
+    writer.endObject();
+    const text = writer.close() as string;
+
+    expect(text).toContain('plain.name-1 : RVSession (1)');
+    expect(text).toContain('"my comp" as "some interp"');
+    expect(text).toContain('int value as "as" = 1');
+  });
+
+  test('should read \\u escapes in names and string data', () => {
+    const reader = new SimpleReader();
+    const ok = reader.open('GTOa (4)\n"caf\\u00e9" : "p\\u0041" (1)\n{\n  c\n  {\n    string "s\\u0020t" = "\\ud83d\\ude00\\u0007"\n  }\n}\n');
+
+    expect(ok).toBe(true);
+    const obj = reader.result.objects[0];
+    expect(obj.name).toBe('café');
+    expect(obj.protocol).toBe('pA');
+    expect(obj.components.c.properties['s t'].data).toEqual(['\u{1F600}\u0007']);
+  });
+
+  test('should escape control characters and unpaired surrogates', () => {
+    const data = new GTOBuilder()
+      .object('node', 'transform', 1)
+        .component('c')
+          .string('s', ['\u0001\u007f', 'lone\ud800'])
+        .end()
+      .end()
+      .build();
+    const text = SimpleWriter.write(data) as string;
+
+    expect(text).toContain('"\\u0001\\u007f" "lone\\ud800"');
+    const reader = new SimpleReader();
+    reader.open(text);
+    expect(reader.result.objects[0].components.c.properties.s.data).toEqual(['\u0001\u007f', 'lone\ud800']);
+  });
+
+  test('should report invalid \\u escapes', () => {
+    const reader = new SimpleReader();
+    expect(reader.open('GTOa (4)\n"bad\\u12g4" : p (1)\n{\n}\n')).toBe(false);
+    expect(reader.error?.message).toContain("Invalid unicode escape '\\u12g4'");
+    expect(reader.error?.line).toBe(2);
+  });
+});
+
+describe('Format Detection', () => {
+  const text = 'GTOa (4)\n\nnode : transform (1)\n{\n    c\n    {\n        float v = [ 1.5 ]\n    }\n}\n';
+  const encode = (content: string, bom = false) => {
+    const bytes = new TextEncoder().encode(content);
+    return bom ? new Uint8Array([0xef, 0xbb, 0xbf, ...bytes]) : bytes;
+  };
+  const valueOf = (reader: SimpleReader) => reader.result.objects[0].components.c.properties.v.data;
+
+  test('should detect each format', () => {
+    const data = new GTOBuilder().object('node', 'transform', 1).component('c').float('v', [1.5]).end().end().build();
+    const little = SimpleWriter.write(data, { binary: true }) as ArrayBuffer;
+    const big = SimpleWriter.write(data, { binary: true, byteOrder: 'big' }) as ArrayBuffer;
+
+    expect(detectFormat(encode(text))).toBe('text');
+    expect(detectFormat(encode(' \r\n' + text, true))).toBe('text');
+    expect(detectFormat(little)).toBe('binary-le');
+    expect(detectFormat(big)).toBe('binary-be');
+    expect(detectFormat(gzip(encode(text)))).toBe('gzip');
+    expect(detectFormat(encode('hello'))).toBeNull();
+    expect(detectFormat(new Uint8Array(0))).toBeNull();
+  });
+
+  test('should read UTF-8 text bytes with a byte order mark', () => {
+    const reader = new SimpleReader();
+    expect(reader.open(encode('\n' + text, true))).toBe(true);
+    expect(valueOf(reader)).toEqual([1.5]);
+    expect(reader.fileHeader.byteOrder).toBeNull();
+  });
+
+  test('should read a string with a byte order mark', () => {
+    const reader = new SimpleReader();
+    expect(reader.open('\ufeff' + text)).toBe(true);
+    expect(valueOf(reader)).toEqual([1.5]);
+  });
+
+  test('should read gzip-compressed text', async () => {
+    const compressed = gzip(encode(text, true));
+
+    const reader = new SimpleReader();
+    expect(reader.open(compressed)).toBe(true);
+    expect(valueOf(reader)).toEqual([1.5]);
+
+    const asyncReader = new SimpleReader();
+    expect(await asyncReader.openAsync(compressed.buffer as ArrayBuffer)).toBe(true);
+    expect(valueOf(asyncReader)).toEqual([1.5]);
+  });
+
+  test('should stream text with a byte order mark split across chunks', async () => {
+    const bytes = encode(text, true);
+    const reader = new SimpleReader();
+    await reader.write(bytes.subarray(0, 2));
+    await reader.write(bytes.subarray(2, 5));
+    await reader.write(bytes.subarray(5));
+    expect(await reader.end()).toBe(true);
+    expect(valueOf(reader)).toEqual([1.5]);
+  });
+
+  test('should still reject unrecognized bytes', () => {
+    const reader = new SimpleReader();
+    expect(reader.open(encode('this is not a GTO file at all'))).toBe(false);
+    expect(reader.error?.code).toBe(ParseErrorCode.InvalidMagic);
+  });
+});
+
+describe('Reader Limits', () => {
+  const buildData = () => new GTOBuilder()
+    .object('mesh', 'polygon', 2)
+      .component('points')
+        .float3('position', [[0, 1, 2], [3, 4, 5]])
+        .string('tag', ['a long string value'])
+      .end()
+    .end()
+    .object('node', 'transform', 1)
+      .component('c')
+        .int('id', [7])
+      .end()
+    .end()
+    .build();
+  const binary = () => new Uint8Array(SimpleWriter.write(buildData(), { binary: true }) as ArrayBuffer);
+  const text = () => SimpleWriter.write(buildData()) as string;
+
+  test('should read files within the limits', () => {
+    const limits = { maxStrings: 20, maxStringLength: 19, maxObjects: 2, maxProperties: 3, maxElements: 8 };
+    for (const content of [binary(), text()]) {
+      const reader = new SimpleReader({ limits });
+      expect(reader.open(content)).toBe(true);
+      expect(reader.result.objects).toHaveLength(2);
+    }
+  });
+
+  test('should enforce each limit on binary files', () => {
+    const cases: Array<[object, number]> = [
+      [{ maxStrings: 5 }, 4],
+      [{ maxObjects: 1 }, 8],
+      [{ maxProperties: 2 }, -1],
+      [{ maxElements: 7 }, -1],
+      [{ maxStringLength: 10 }, -1]
+    ];
+    for (const [limits, offset] of cases) {
+      const reader = new SimpleReader({ limits });
+      expect(reader.open(binary())).toBe(false);
+      expect(reader.error).toBeInstanceOf(GTOBinaryError);
+      expect(reader.error?.code).toBe(ParseErrorCode.LimitExceeded);
+      if (offset >= 0) {
+        expect(reader.error?.offset).toBe(offset);
+      }
+    }
+  });
+
+  test('should enforce each limit on text files', () => {
+    for (const limits of [{ maxStrings: 5 }, { maxObjects: 1 }, { maxProperties: 2 }, { maxElements: 7 }, { maxStringLength: 10 }]) {
+      const reader = new SimpleReader({ limits });
+      expect(reader.open(text())).toBe(false);
+      expect(reader.error).toBeInstanceOf(GTOSyntaxError);
+      expect(reader.error?.code).toBe(ParseErrorCode.LimitExceeded);
+    }
+  });
+
+  test('should report the limit and value', () => {
+    const reader = new SimpleReader({ limits: { maxElements: 7 } });
+    reader.open(binary());
+    expect(reader.error?.reason).toBe('Number of values (8) exceeds the maxElements limit of 7');
+  });
+
+  test('should stop decompressing at the maxBytes limit', async () => {
+    const compressed = gzip(binary());
+    const maxBytes = binary().length - 1;
+    const expectLimit = (reader: SimpleReader) => {
+      expect(reader.error).toBeInstanceOf(GTOFormatError);
+      expect(reader.error?.code).toBe(ParseErrorCode.LimitExceeded);
+      expect(reader.error?.reason).toBe(`Decompressed data exceeds the maxBytes limit of ${maxBytes}`);
+    };
+
+    let reader = new SimpleReader({ limits: { maxBytes } });
+    expect(reader.open(compressed)).toBe(false);
+    expectLimit(reader);
+
+    reader = new SimpleReader({ limits: { maxBytes } });
+    expect(await reader.openAsync(compressed)).toBe(false);
+    expectLimit(reader);
+
+    reader = new SimpleReader({ limits: { maxBytes } });
+    await reader.write(compressed);
+    expect(await reader.end()).toBe(false);
+    expectLimit(reader);
+
+    // Custom decompressors are passed the limit, and checked against it
+    const limits: number[] = [];
+    reader = new SimpleReader({ limits: { maxBytes }, decompress: (data, _format, limit) => {
+      limits.push(limit!);
+      return gunzip(data);
+    } });
+    expect(reader.open(compressed)).toBe(false);
+    expectLimit(reader);
+    expect(limits).toEqual([maxBytes]);
+
+    reader = new SimpleReader({ limits: { maxBytes: maxBytes + 1 } });
+    expect(reader.open(compressed)).toBe(true);
+  });
+
+  test('should not recover from limits in lenient mode', () => {
+    const reader = new SimpleReader({ lenient: true, limits: { maxObjects: 1 } });
+    expect(reader.open(text())).toBe(false);
+    expect(reader.error?.code).toBe(ParseErrorCode.LimitExceeded);
+  });
+
+  test('should reject a huge string count without scanning for it', () => {
+    const bytes = binary();
+    new DataView(bytes.buffer).setUint32(4, 0xffffffff, true);
+    const reader = new SimpleReader();
+    expect(reader.open(bytes)).toBe(false);
+    expect(reader.error?.code).toBe(ParseErrorCode.Truncated);
+    expect(reader.error?.offset).toBe(20);
+  });
+
+  test('should reject an unterminated string table', () => {
+    const bytes = binary().slice(0, 24);
+    const reader = new SimpleReader();
+    expect(reader.open(bytes)).toBe(false);
+    expect(reader.error?.code).toBe(ParseErrorCode.Truncated);
+  });
+
+  test('should reject property data past the end of the file', () => {
+    const reader = new Reader(ReaderMode.HeaderOnly);
+    reader.open(binary());
+    const bytes = binary();
+    const view = new DataView(bytes.buffer);
+    // Property headers follow the string table, object and component headers
+    let offset = 20;
+    for (let i = 0; i < reader.fileHeader.numStrings; i++) {
+      while (bytes[offset] !== 0) offset++;
+      offset++;
+    }
+    offset += 2 * 20 + 2 * 20;
+    view.setUint32(offset + 12, 0xffffffff, true);   // size of 'position'
+
+    const limited = new SimpleReader({ limits: { maxElements: 1000 } });
+    expect(limited.open(bytes)).toBe(false);
+    expect(limited.error?.code).toBe(ParseErrorCode.LimitExceeded);
+    expect(limited.error?.offset).toBe(offset);
+
+    const unlimited = new SimpleReader();
+    expect(unlimited.open(bytes)).toBe(false);
+    expect(unlimited.error?.code).toBe(ParseErrorCode.Truncated);
+  });
+
+  test('should fail a stream as soon as the file header exceeds a limit', async () => {
+    const header = binary().slice(0, 20);
+    new DataView(header.buffer).setUint32(8, 1e9, true);
+    const reader = new SimpleReader({ limits: { maxObjects: 1000 } });
+    await reader.write(header);
+    expect(await reader.end()).toBe(false);
+    expect(reader.error?.code).toBe(ParseErrorCode.LimitExceeded);
+    expect(reader.error?.offset).toBe(8);
+  });
+});
+
+describe('Binary Verification', () => {
+  const binary = (options = {}) => new Uint8Array(SimpleWriter.write(new GTOBuilder()
+    .object('mesh', 'polygon', 2)
+      .component('points')
+        .float3('position', [[0, 1, 2], [3, 4, 5]])
+        .string('tag', ['a', 'b'])
+      .end()
+    .end()
+    .object('node', 'transform', 1)
+      .component('c')
+        .int('id', [7])
+      .end()
+    .end()
+    .build(), { binary: true, ...options }) as ArrayBuffer);
+  const sectionOf = (report: ReturnType<typeof verifyBinary>, name: string) =>
+    report.sections.find(section => section.name === name)!;
+
+  test('should describe an intact file', () => {
+    const bytes = binary();
+    const report = verifyBinary(bytes);
+
+    expect(report.ok).toBe(true);
+    expect(report.error).toBeNull();
+    expect(report.warnings).toEqual([]);
+    expect(report.byteOrder).toBe('little');
+    expect(report.version).toBe(4);
+    expect(report.expectedSize).toBe(bytes.length);
+    expect(report.sections.map(section => section.name)).toEqual(['header', 'strings', 'objects', 'components', 'properties', 'data']);
+    expect(report.sections.every(section => section.complete)).toBe(true);
+    expect(sectionOf(report, 'objects')).toMatchObject({ size: 40, count: 2 });
+    expect(sectionOf(report, 'properties')).toMatchObject({ size: 3 * 36, count: 3 });
+    expect(sectionOf(report, 'data')).toMatchObject({ size: 24 + 8 + 4, count: 3 });
+    expect(report.salvage).toEqual({ bytes: bytes.length, objects: ['mesh', 'node'], properties: 3, totalProperties: 3 });
+  });
+
+  test('should report truncated data and what is salvageable', () => {
+    const bytes = binary();
+    const report = verifyBinary(bytes.slice(0, bytes.length - 2));
+    const data = sectionOf(report, 'data');
+
+    expect(report.ok).toBe(false);
+    expect(data.complete).toBe(false);
+    expect(report.error?.code).toBe(ParseErrorCode.Truncated);
+    expect(report.error?.offset).toBe(data.offset + 32);
+    expect(report.error?.property).toBe('id');
+    expect(report.salvage).toEqual({ bytes: data.offset + 32, objects: ['mesh'], properties: 2, totalProperties: 3 });
+  });
+
+  test('should report string indices past the table', () => {
+    const bytes = binary();
+    const view = new DataView(bytes.buffer);
+    const components = sectionOf(verifyBinary(bytes), 'components');
+    view.setUint32(components.offset + 20, 99, true);   // Name of the second component
+
+    const report = verifyBinary(bytes);
+    expect(report.error?.code).toBe(ParseErrorCode.InvalidStringId);
+    expect(report.error?.offset).toBe(components.offset + 20);
+    expect(report.error?.object).toBe('node');
+    expect(report.salvage.objects).toEqual([]);
+  });
+
+  test('should report string data past the table', () => {
+    const bytes = binary();
+    const data = sectionOf(verifyBinary(bytes), 'data');
+    new DataView(bytes.buffer).setUint32(data.offset + 28, 1000, true);   // Second 'tag' value
+
+    const report = verifyBinary(bytes);
+    expect(report.error?.code).toBe(ParseErrorCode.InvalidStringId);
+    expect(report.error?.offset).toBe(data.offset + 28);
+    expect(report.error?.property).toBe('tag');
+    expect(report.salvage.properties).toBe(1);
+  });
+
+  test('should reject string data past the table when reading', () => {
+    const bytes = binary();
+    const data = sectionOf(verifyBinary(bytes), 'data');
+    new DataView(bytes.buffer).setUint32(data.offset + 28, 1000, true);   // Second 'tag' value
+
+    for (const options of [{}, { typedArrays: true }]) {
+      const reader = new SimpleReader(options);
+      expect(reader.open(bytes)).toBe(false);
+      expect(reader.error).toBeInstanceOf(GTOBinaryError);
+      expect(reader.error?.code).toBe(ParseErrorCode.InvalidStringId);
+      expect(reader.error?.offset).toBe(data.offset + 28);
+      expect(reader.error?.object).toBe('mesh');
+      expect(reader.error?.property).toBe('tag');
+    }
+
+    const reader = new SimpleReader();
+    expect(reader.open('GTOa (4)\n\nobj : Proto (1)\n{\n    comp\n    {\n        string s = [ "a" 9 ]\n    }\n}\n')).toBe(false);
+    expect(reader.error).toBeInstanceOf(GTOSyntaxError);
+    expect(reader.error?.code).toBe(ParseErrorCode.InvalidStringId);
+    expect(reader.error?.line).toBe(7);
+    expect(reader.error?.column).toBe(26);
+    expect(reader.error?.property).toBe('s');
+  });
+
+  test('should catch component counts that disagree with the headers', () => {
+    const bytes = binary();
+    const objects = sectionOf(verifyBinary(bytes), 'objects');
+    new DataView(bytes.buffer).setUint32(objects.offset + 12, 2, true);   // numComponents of 'mesh'
+
+    const report = verifyBinary(bytes);
+    expect(report.ok).toBe(false);
+    expect(report.error).not.toBeNull();
+  });
+
+  test('should warn about bytes after the data', () => {
+    const bytes = binary();
+    const padded = new Uint8Array(bytes.length + 8);
+    padded.set(bytes);
+
+    const report = verifyBinary(padded);
+    expect(report.ok).toBe(true);
+    expect(report.warnings).toHaveLength(1);
+    expect(report.warnings[0].offset).toBe(bytes.length);
+  });
+
+  test('should verify compressed and big-endian files', () => {
+    const compressed = verifyBinary(binary({ compressed: true }));
+    expect(compressed.ok).toBe(true);
+    expect(compressed.compression).toBe('gzip');
+
+    const big = verifyBinary(binary({ byteOrder: 'big' }));
+    expect(big.ok).toBe(true);
+    expect(big.byteOrder).toBe('big');
+  });
+
+  test('should report files that are not binary GTO', () => {
+    expect(verifyBinary(new Uint8Array(10)).error?.code).toBe(ParseErrorCode.Truncated);
+    expect(verifyBinary(new TextEncoder().encode('GTOa (4)\n\nnode : transform (1)\n{\n}\n')).error?.code)
+      .toBe(ParseErrorCode.InvalidMagic);
+  });
+
+  test('should report a truncated string table', () => {
+    const report = verifyBinary(binary().slice(0, 26));
+    expect(report.error?.code).toBe(ParseErrorCode.Truncated);
+    expect(report.error?.offset).toBe(26);
+    expect(sectionOf(report, 'strings').complete).toBe(false);
+    expect(report.salvage.objects).toEqual([]);
+  });
+});
+
+describe('Bulk Binary Data', () => {
+  const scalar: Record<number, (view: DataView, offset: number, littleEndian: boolean) => number | bigint> = {
+    [DataType.Int]: (view, offset, le) => view.getInt32(offset, le),
+    [DataType.Float]: (view, offset, le) => view.getFloat32(offset, le),
+    [DataType.Double]: (view, offset, le) => view.getFloat64(offset, le),
+    [DataType.Half]: (view, offset, le) => halfToFloat(view.getUint16(offset, le)),
+    [DataType.String]: (view, offset, le) => view.getUint32(offset, le),
+    [DataType.Short]: (view, offset, le) => view.getUint16(offset, le),
+    [DataType.Byte]: (view, offset) => view.getUint8(offset),
+    [DataType.Int64]: (view, offset, le) => view.getBigInt64(offset, le)
+  };
+  const sizes: Record<number, number> = {
+    [DataType.Int]: 4, [DataType.Float]: 4, [DataType.Double]: 8, [DataType.Half]: 2,
+    [DataType.String]: 4, [DataType.Short]: 2, [DataType.Byte]: 1, [DataType.Int64]: 8
+  };
+  const values = [0, 1, -1, 2.5, -1e5, 65535, 65536, 3e9, 1e-6, NaN, Infinity];
+
+  test('should encode like the DataView setters in both byte orders', () => {
+    for (const littleEndian of [true, false]) {
+      for (const type of Object.keys(scalar).map(Number) as DataType[]) {
+        const input = type === DataType.Int64 ? [0n, -1n, 2n ** 62n] : values;
+        const bytes = encodeValues(input, type, littleEndian);
+        const view = new DataView(bytes.buffer);
+        const expected = new DataView(new ArrayBuffer(bytes.length));
+        input.forEach((value, i) => {
+          const offset = i * sizes[type];
+          switch (type) {
+            case DataType.Int: expected.setInt32(offset, value as number, littleEndian); break;
+            case DataType.Float: expected.setFloat32(offset, value as number, littleEndian); break;
+            case DataType.Double: expected.setFloat64(offset, value as number, littleEndian); break;
+            case DataType.Half: expected.setUint16(offset, floatToHalf(value as number), littleEndian); break;
+            case DataType.String: expected.setUint32(offset, value as number, littleEndian); break;
+            case DataType.Short: expected.setUint16(offset, value as number, littleEndian); break;
+            case DataType.Byte: expected.setUint8(offset, value as number); break;
+            case DataType.Int64: expected.setBigInt64(offset, value as bigint, littleEndian); break;
+          }
+        });
+        expect(new Uint8Array(bytes.buffer), `type ${type}, ${littleEndian ? 'LE' : 'BE'}`)
+          .toEqual(new Uint8Array(expected.buffer));
+
+        // And decode back like the getters, from an unaligned offset
+        const shifted = new Uint8Array(bytes.length + 1);
+        shifted.set(bytes, 1);
+        const decoded = Array.from(decodeValues(shifted.subarray(1), type, input.length, littleEndian) as ArrayLike<unknown>);
+        expect(decoded).toEqual(input.map((_, i) => {
+          const value = scalar[type](view, i * sizes[type], littleEndian);
+          return type === DataType.Half || type === DataType.Float ? Math.fround(value as number) : value;
+        }));
+      }
+    }
+  });
+
+  test('should normalize booleans and take bigints as numbers', () => {
+    expect(Array.from(encodeValues([0, 2, true, false, 1n] as unknown as number[], DataType.Boolean, true))).toEqual([0, 1, 1, 0, 1]);
+    expect(Array.from(decodeValues(new Uint8Array([0, 7, 1]), DataType.Boolean, 3, true))).toEqual([0, 1, 1]);
+    expect(new Int32Array(encodeValues([5n, -3n], DataType.Int, true).buffer)).toEqual(new Int32Array([5, -3]));
+  });
+
+  test('should round-trip typed array input through files in either byte order', () => {
+    const data = new Float32Array([0.5, -2, 1e10, 3.25]);
+    const halfs = new Float32Array([0.5, -2, 65504, 0.1]);
+    for (const byteOrder of ['little', 'big'] as const) {
+      const writer = new Writer({ byteOrder });
+      writer.open(FileType.BinaryGTO);
+      writer.beginObject('o', 'p', 1);
+      writer.beginComponent('c', 'points', true);
+      writer.propertyWithData('f', DataType.Float, 2, 2, '', data);
+      writer.propertyWithData('h', DataType.Half, 2, 2, '', halfs);
+      data[0] = 99;   // Data is copied when the property is written
+      writer.endComponent();
+      writer.endObject();
+      const output = writer.close() as ArrayBuffer;
+      data[0] = 0.5;
+
+      for (const typedArrays of [false, true]) {
+        const reader = new SimpleReader({ typedArrays });
+        expect(reader.open(output)).toBe(true);
+        const props = reader.result.objects[0].components.c.properties;
+        expect(Array.from(props.f.data as ArrayLike<number>).flat()).toEqual([0.5, -2, 1e10, 3.25]);
+        expect(Array.from(props.h.data as ArrayLike<number>).flat()).toEqual([0.5, -2, 65504, halfToFloat(floatToHalf(0.1))]);
+      }
+    }
+  });
+});
+
+describe('Text Lexer', () => {
+  const readValues = (type: string, literals: string[]) => {
+    const reader = new SimpleReader({ bigInt: true });
+    const lines = literals.map((literal, i) => `        ${type} v${i} = ${literal}`).join('\n');
+    expect(reader.open(`GTOa (4)\n\nobj : Proto\n{\n    comp\n    {\n${lines}\n    }\n}\n`)).toBe(true);
+    const properties = reader.result.objects[0].components.comp.properties;
+    return literals.map((_, i) => properties[`v${i}`].data[0]);
+  };
+
+  test('should parse numbers exactly as parseFloat does', () => {
+    const literals = [
+      '0', '-0', '1.', '0.1', '1.33000004', '-0.330000013', '3.14159265358979',
+      '0.000000000000001', '123456789.123456', '1234567890123456.7',
+      '1e5', '2.5E-3', '-1.5e+300', '1.2e', '4.9e-324', '007.50'
+    ];
+    const values = readValues('double', literals);
+    literals.forEach((literal, i) => {
+      expect(Object.is(values[i], parseFloat(literal)), literal).toBe(true);
+    });
+  });
+
+  test('should keep integers beyond 2^53 exact at the end of the input', () => {
+    expect(readValues('int64', ['9007199254740993', '-123456789012345678'])).toEqual([9007199254740993n, -123456789012345678n]);
+    const reader = new SimpleReader({ bigInt: true, lenient: true });
+    reader.open('GTOa (4)\n\nobj : Proto\n{\n    comp\n    {\n        int64 v = 9007199254740993');
+    expect(reader.result.objects[0].components.comp.properties.v.data[0]).toBe(9007199254740993n);
+  });
+
+  test('should unescape strings around plain runs of text', () => {
+    expect(readValues('string', [
+      '"plain"', '"a\\tb\\nc"', "'it\\'s \"quoted\"'", '"\\u00e9t\\u00E9 \\\\ end"', '"\\q"'
+    ])).toEqual(['plain', 'a\tb\nc', 'it\'s "quoted"', 'été \\ end', 'q']);
+  });
+
+  test('should locate errors after comments, CRLF and earlier errors', () => {
+    const content = 'GTOa (4) # header\r\n\r\nobj : Proto\r\n{\r\n    comp # first\r\n    {\r\n' +
+      '        float a = @\r\n        float b = 1 # ok\r\n        float c = 2 $\r\n    }\r\n}\r\n';
+    const reader = new SimpleReader({ lenient: true });
+    reader.open(content);
+    expect(reader.diagnostics.map(d => [d.line, d.column])).toEqual([[7, 19], [9, 21]]);
+  });
+
+  test('should locate errors in text split across stream chunks', async () => {
+    const text = new TextEncoder().encode('GTOa (4)\n\nobj : Proto\n{\n    comp\n    {\n        float a = 1\n        float b = 2 @\n    }\n}\n');
+    const reader = new SimpleReader();
+    for (let i = 0; i < text.length; i += 7) {
+      await reader.write(text.subarray(i, i + 7));
+    }
+    expect(await reader.end()).toBe(false);
+    expect([reader.error?.line, reader.error?.column]).toEqual([8, 21]);
+  });
+});
+
+describe('Worker Parsing', () => {
+  const buildData = () => new GTOBuilder()
+    .object('mesh', 'polygon', 2)
+      .component('points')
+        .float3('position', [[1, 2, 3], [4, 5, 6]])
+        .int('index', [7, 8])
+      .end()
+    .end()
+    .build();
+
+  /** Runs parse requests on this thread, cloning messages as postMessage would */
+  class InProcessWorker {
+    static started = 0;
+    static running = 0;
+    static maxRunning = 0;
+    terminated = false;
+    private listeners: Record<string, ((value: unknown) => void)[]> = { message: [], messageerror: [], error: [], exit: [] };
+
+    constructor() {
+      InProcessWorker.started++;
+    }
+
+    postMessage(message: unknown, transferList: ArrayBuffer[]): void {
+      const request = structuredClone(message, { transfer: transferList }) as ParseRequest;
+      InProcessWorker.maxRunning = Math.max(InProcessWorker.maxRunning, ++InProcessWorker.running);
+      setTimeout(() => {
+        void runParseRequest(request, (response, transfer) => {
+          if (response.type !== 'progress') {
+            InProcessWorker.running--;
+          }
+          this.emit('message', structuredClone(response, { transfer }));
+        });
+      });
+    }
+
+    on(event: 'message' | 'messageerror' | 'error' | 'exit', listener: (value: unknown) => void): void {
+      this.listeners[event].push(listener);
+    }
+
+    emit(event: 'message' | 'messageerror' | 'error' | 'exit', value: unknown): void {
+      for (const listener of this.listeners[event]) {
+        listener(value);
+      }
+    }
+
+    terminate(): void {
+      this.terminated = true;
+    }
+  }
+
+  const workers: InProcessWorker[] = [];
+  const createWorker = () => {
+    const worker = new InProcessWorker();
+    workers.push(worker);
+    return worker;
+  };
+
+  test('should parse in a worker and report progress', async () => {
+    const text = SimpleWriter.write(buildData()) as string;
+    const progress: number[] = [];
+    const { result, diagnostics } = await parseInWorker(text, {
+      createWorker,
+      chunkSize: 16,
+      onProgress: ({ loaded, total }) => {
+        expect(total).toBe(new TextEncoder().encode(text).length);
+        progress.push(loaded);
+      }
+    });
+
+    const expected = new SimpleReader();
+    expected.open(text);
+    expect(result).toEqual(expected.result);
+    expect(diagnostics).toEqual([]);
+    expect(progress.length).toBe(Math.ceil(new TextEncoder().encode(text).length / 16));
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(workers.at(-1)!.terminated).toBe(true);
+  });
+
+  test('should transfer the input buffer unless asked not to', async () => {
+    const binary = SimpleWriter.write(buildData(), { binary: true }) as ArrayBuffer;
+
+    const kept = binary.slice(0);
+    await parseInWorker(kept, { createWorker, transfer: false });
+    expect(kept.byteLength).toBe(binary.byteLength);
+
+    const moved = binary.slice(0);
+    const { result } = await parseInWorker(new Uint8Array(moved), { createWorker, typedArrays: true });
+    expect(moved.byteLength).toBe(0);
+    expect(result.objects[0].components.points.properties.position.data).toEqual(new Float32Array([1, 2, 3, 4, 5, 6]));
+  });
+
+  test('should reject with the parse error rebuilt', async () => {
+    const text = 'GTOa (4)\n\nobj : Proto\n{\n    comp\n    {\n        float a = @\n    }\n}\n';
+    const error = await parseInWorker(text, { createWorker, name: 'broken.rv' }).catch(e => e);
+    expect(error).toBeInstanceOf(GTOSyntaxError);
+    expect(error.code).toBe(ParseErrorCode.UnexpectedCharacter);
+    expect(error.message).toBe("broken.rv:7:19: Unexpected character '@' (in object 'obj', component 'comp', property 'a')");
+
+    const { diagnostics } = await parseInWorker(text, { createWorker, lenient: true });
+    expect(diagnostics.map(d => d.code)).toEqual([ParseErrorCode.UnexpectedCharacter]);
+  });
+
+  test('should parse many files with at most size workers', async () => {
+    InProcessWorker.started = 0;
+    InProcessWorker.maxRunning = 0;
+    const pool = new WorkerPool({ size: 3, createWorker });
+    const files = Array.from({ length: 8 }, () => SimpleWriter.write(buildData(), { binary: true }) as ArrayBuffer);
+
+    const results = await Promise.all(files.map(file => pool.parse(file)));
+    expect(results.map(r => r.result.objects[0].name)).toEqual(Array(8).fill('mesh'));
+    expect(InProcessWorker.started).toBe(3);
+    expect(InProcessWorker.maxRunning).toBe(3);
+    expect(pool.pending).toBe(0);
+
+    await pool.close();
+    await expect(pool.parse(files[0])).rejects.toThrow('closed');
+  });
+
+  test('should reject queued parses on close and replace crashed workers', async () => {
+    const pool = new WorkerPool({ size: 1, createWorker });
+    const text = SimpleWriter.write(buildData()) as string;
+
+    const running = pool.parse(text);
+    await new Promise(resolve => setTimeout(resolve));
+    const crashed = workers.at(-1)!;
+    crashed.emit('error', new Error('out of memory'));
+    const error = await running.catch(e => e);
+    expect(error.code).toBe(ParseErrorCode.Internal);
+    expect(error.message).toMatch(/Worker failed: out of memory/);
+    expect(crashed.terminated).toBe(true);
+
+    expect((await pool.parse(text)).result.objects.length).toBe(1);
+    expect(workers.at(-1)).not.toBe(crashed);
+
+    const exiting = pool.parse(text);
+    workers.at(-1)!.emit('exit', 1);
+    await expect(exiting).rejects.toThrow('Worker failed: Worker exited with code 1');
+    expect((await pool.parse(text)).result.objects.length).toBe(1);
+
+    const queued = [pool.parse(text), pool.parse(text)];
+    await pool.close();
+    for (const parse of queued) {
+      await expect(parse).rejects.toThrow('closed');
+    }
+  });
+});
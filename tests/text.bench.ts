@@ -0,0 +1,106 @@
+/**
+ * Text parsing throughput over the sessions in public/sample, each repeated
+ * to about GTO_BENCH_MB megabytes (default 50): pnpm bench
+ *
+ * The Reader lexes and parses without keeping data; the SimpleReader also
+ * builds the full result. Each must reach TARGET_SPEEDUP times the throughput
+ * of the character-by-character lexer this one replaced. Afterwards every
+ * bench is reported as PASS or FAIL, and the run fails if any missed.
+ */
+import { readFileSync, readdirSync } from 'fs';
+import { afterAll, bench, describe } from 'vitest';
+import { Reader, SimpleReader, ReaderMode } from '../src/index.js';
+import type { PropertyInfo, PropertyValues } from '../src/index.js';
+
+const MEGABYTES = Number(process.env.GTO_BENCH_MB ?? 50);
+const OPTIONS = { iterations: 3, time: 0, warmupIterations: 1, warmupTime: 0 };
+
+/**
+ * Megabytes of text per second of the previous lexer (commit 602d366), the
+ * mean over both sample files at 50 MB on one core with Node 20. Measure it
+ * again on a different machine: check out that commit with this file and
+ * run pnpm bench.
+ */
+const BASELINE_MB_PER_S = { reader: 8.9, simpleReader: 6.5 };
+const TARGET_SPEEDUP = 1.25;
+
+const SAMPLE_DIR = new URL('../public/sample/', import.meta.url);
+
+/**
+ * Repeat the objects of a session up to the requested size, renaming each
+ * copy so every object name stays unique
+ */
+function repeatSession(text: string, megabytes: number): string {
+  const start = text.indexOf('\n') + 1;
+  const header = text.slice(0, start);
+  const body = text.slice(start);
+  const copies = Math.max(1, Math.round(megabytes * 1024 * 1024 / body.length));
+  const parts = [header];
+  for (let i = 0; i < copies; i++) {
+    parts.push(body.replace(/^(\w+) :/gm, `$1_${i} :`));
+  }
+  return parts.join('');
+}
+
+/** Reads every property without keeping the data */
+class CountingReader extends Reader {
+  values = 0;
+  override dataRead(_info: PropertyInfo, data: PropertyValues): void {
+    this.values += data.length;
+  }
+}
+
+interface Result {
+  name: string;
+  megabytes: number;
+  target: number;
+  /** Seconds per read, warmup runs included */
+  times: number[];
+}
+const results: Result[] = [];
+
+/**
+ * Bench `read`, timing each call for the report
+ */
+function benchThroughput(name: string, megabytes: number, target: number, read: () => void): void {
+  const result: Result = { name, megabytes, target, times: [] };
+  results.push(result);
+  bench(name, () => {
+    const start = performance.now();
+    read();
+    result.times.push((performance.now() - start) / 1000);
+  }, OPTIONS);
+}
+
+for (const file of readdirSync(SAMPLE_DIR).filter(name => name.endsWith('.rv'))) {
+  const text = repeatSession(readFileSync(new URL(file, SAMPLE_DIR), 'utf8'), MEGABYTES);
+  const size = text.length / (1024 * 1024);
+
+  describe(`${file} x ${size.toFixed(1)} MB`, () => {
+    benchThroughput(`${file} Reader`, size, BASELINE_MB_PER_S.reader * TARGET_SPEEDUP, () => {
+      new CountingReader(ReaderMode.None).open(text);
+    });
+
+    benchThroughput(`${file} SimpleReader`, size, BASELINE_MB_PER_S.simpleReader * TARGET_SPEEDUP, () => {
+      new SimpleReader().open(text);
+    });
+  });
+}
+
+afterAll(() => {
+  const failed: string[] = [];
+  const lines = results.map(({ name, megabytes, target, times }) => {
+    // Warmup runs come first
+    const measured = times.slice(-OPTIONS.iterations);
+    const mbPerS = megabytes * measured.length / measured.reduce((sum, time) => sum + time, 0);
+    const pass = mbPerS >= target;
+    if (!pass) {
+      failed.push(name);
+    }
+    return `${pass ? 'PASS' : 'FAIL'}  ${name}: ${mbPerS.toFixed(1)} MB/s (target ${target.toFixed(1)} MB/s)`;
+  });
+  console.log(`\nText parsing, target ${TARGET_SPEEDUP}x the previous lexer:\n${lines.join('\n')}`);
+  if (failed.length > 0) {
+    throw new Error(`Below the throughput target: ${failed.join(', ')}`);
+  }
+});
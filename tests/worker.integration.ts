@@ -0,0 +1,61 @@
+/**
+ * WorkerPool with real worker_threads workers running the compiled
+ * worker-script.js: pnpm test:integration
+ *
+ * Node.js cannot run worker-script.ts, so the library is compiled once
+ * before the tests.
+ */
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+import { GTOBuilder, ParseErrorCode, SimpleWriter } from '../src/index.js';
+
+describe('Worker Parsing in worker_threads', () => {
+  const buildData = () => new GTOBuilder()
+    .object('mesh', 'polygon', 2)
+      .component('points')
+        .float3('position', [[1, 2, 3], [4, 5, 6]])
+        .int('index', [7, 8])
+      .end()
+    .end()
+    .build();
+
+  let outDir: string;
+  let compiled: typeof import('../src/index.js');
+
+  beforeAll(async () => {
+    outDir = mkdtempSync(join(tmpdir(), 'gto-worker-'));
+    execFileSync(process.execPath, [
+      fileURLToPath(new URL('../node_modules/typescript/bin/tsc', import.meta.url)),
+      '-p', fileURLToPath(new URL('../tsconfig.json', import.meta.url)),
+      '--outDir', outDir, '--declaration', 'false', '--declarationMap', 'false', '--sourceMap', 'false'
+    ]);
+    writeFileSync(join(outDir, 'package.json'), '{ "type": "module" }');
+    compiled = await import(pathToFileURL(join(outDir, 'index.js')).href) as typeof import('../src/index.js');
+  }, 120_000);
+
+  afterAll(() => {
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  test('should parse in workers started from worker-script.js', async () => {
+    const pool = new compiled.WorkerPool({ size: 1 });
+    try {
+      const binary = SimpleWriter.write(buildData(), { binary: true }) as ArrayBuffer;
+      const { result } = await pool.parse(binary, { typedArrays: true });
+      expect(binary.byteLength).toBe(0);
+      expect(result.objects.map(o => o.name)).toEqual(['mesh']);
+      expect(result.objects[0].components.points.properties.position.data).toBeInstanceOf(Float32Array);
+      expect(result.objects[0].components.points.properties.position.data).toEqual(new Float32Array([1, 2, 3, 4, 5, 6]));
+
+      const error = await pool.parse('GTOa (4)\n\nobj : Proto\n{\n    comp\n    {\n        float a = @\n    }\n}\n').catch(e => e);
+      expect(error.name).toBe('GTOSyntaxError');
+      expect(error.code).toBe(ParseErrorCode.UnexpectedCharacter);
+    } finally {
+      await pool.close();
+    }
+  });
+});
@@ -5,14 +5,23 @@ import dts from 'vite-plugin-dts';
 const isLibBuild = process.env.BUILD_MODE === 'lib';
 
 export default defineConfig({
-  // Set base path for GitHub Pages deployment
-  base: process.env.GITHUB_ACTIONS ? '/gto-js/' : '/',
+  // Set base path for GitHub Pages deployment; the library locates its
+  // worker script relative to itself
+  base: isLibBuild ? './' : process.env.GITHUB_ACTIONS ? '/gto-js/' : '/',
   publicDir: 'public',
   resolve: {
     alias: {
       'gto-js': resolve(__dirname, 'src/index.ts')
     }
   },
+  // The library ships its parse worker as dist/worker-script.js
+  worker: isLibBuild ? {
+    rollupOptions: {
+      output: {
+        entryFileNames: '[name].js'
+      }
+    }
+  } : {},
   plugins: isLibBuild ? [
     dts({
       include: ['src/**/*.ts'],
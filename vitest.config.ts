@@ -3,6 +3,9 @@ import { defineConfig } from 'vitest/config';
 export default defineConfig({
   test: {
     include: ['tests/**/*.test.ts'],
-    globals: false
+    globals: false,
+    benchmark: {
+      include: ['tests/**/*.bench.ts']
+    }
   }
 });
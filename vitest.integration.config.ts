@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Slower tests against the compiled library, kept out of pnpm test
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.integration.ts'],
+    globals: false
+  }
+});